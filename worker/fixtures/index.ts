@@ -0,0 +1,22 @@
+// Local fixture data for offline rendering (DATA_SOURCE = "fixtures").
+// One file per shop with the same columns as the sheet tabs; add a shop by
+// dropping in `<CODE>.csv` (or `<CODE>.json`, an array of row objects keyed by
+// column) and listing it below. FX.csv holds
+// dated exchange rates (NOK per unit), same layout as the FX sheet tab, and
+// Targets.csv budgets and targets per market and month, same layout as the Targets tab.
+import type { FixtureFiles } from '../src/datasource';
+import NO from './NO.csv';
+import SE from './SE.csv';
+import DK from './DK.csv';
+import DE from './DE.csv';
+import FX from './FX.csv';
+import Targets from './Targets.csv';
+
+export const FIXTURE_FILES: FixtureFiles = {
+  'NO.csv': NO,
+  'SE.csv': SE,
+  'DK.csv': DK,
+  'DE.csv': DE,
+  'FX.csv': FX,
+  'Targets.csv': Targets,
+};
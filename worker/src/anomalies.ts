@@ -0,0 +1,134 @@
+import { Shop } from './shops';
+import { MarketingDailyMetrics } from './sheets';
+import { aggregatePeriodMetrics } from './metrics';
+import { getChannelName } from './channels';
+import { shiftDate } from './triplewhale';
+import { Anomaly, AnomalyMetric, DateRange } from './types';
+
+// =============================================================================
+// BASELINE
+// =============================================================================
+
+// Same weekday in each of the previous five weeks (inside the 35-day freshness window, so no extra rows are read)
+export const ANOMALY_BASELINE_WEEKS = 5;
+
+// Fewer same-weekday values than this and the figure isn't checked
+const MIN_BASELINE_DAYS = 3;
+
+// Flag when the day is this many standard deviations from the baseline mean
+const Z_THRESHOLD = 3;
+
+// σ is at least 10% of the mean, so a run of near-identical days doesn't flag small moves
+// (with Z_THRESHOLD = 3, nothing under ±30% is flagged)
+const MIN_RELATIVE_STDDEV = 0.1;
+
+// Orders and NC% swing too much on small counts; skip markets below this many orders on a typical day
+const MIN_BASELINE_ORDERS = 10;
+
+/**
+ * Date range the baseline reads (previous ANOMALY_BASELINE_WEEKS weeks, same weekday)
+ * @param date Day to check (YYYY-MM-DD)
+ */
+export function getAnomalyBaselineWindow(date: string): DateRange {
+  return { start: shiftDate(date, -7 * ANOMALY_BASELINE_WEEKS), end: shiftDate(date, -7) };
+}
+
+function getBaselineDates(date: string): string[] {
+  return Array.from({ length: ANOMALY_BASELINE_WEEKS }, (_, i) => shiftDate(date, -7 * (i + 1)));
+}
+
+/**
+ * Compare a value with its baseline
+ * @param value The day's value (null = not defined, e.g. ROAS without spend)
+ * @param baseline Same-weekday values (nulls are ignored)
+ * @returns Mean, % change and z-score, or null if there's too little baseline or it averages 0
+ */
+function compareWithBaseline(
+  value: number | null,
+  baseline: Array<number | null>
+): { mean: number; change: number; zScore: number } | null {
+  const values = baseline.filter((v): v is number => v !== null);
+  if (value === null || values.length < MIN_BASELINE_DAYS) return null;
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean <= 0) return null;
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  const stddev = Math.max(Math.sqrt(variance), mean * MIN_RELATIVE_STDDEV);
+
+  return {
+    mean,
+    change: ((value / mean) - 1) * 100,
+    zScore: (value - mean) / stddev,
+  };
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * Find unusual market and channel figures for a day
+ * Spend, MER, NC% and orders per market and spend + channel ROAS per channel are compared with the
+ * same weekday over the previous five weeks, in local currency. Deviations of Z_THRESHOLD or more
+ * standard deviations are returned.
+ * @param shops Shop registry (paused shops are skipped)
+ * @param allData Map of shop code to daily metrics (must include the baseline window)
+ * @param date Day to check (YYYY-MM-DD)
+ * @returns Anomalies, largest deviation first
+ */
+export function detectAnomalies(
+  shops: Shop[],
+  allData: Map<string, MarketingDailyMetrics[]>,
+  date: string
+): Anomaly[] {
+  const baselineDates = getBaselineDates(date);
+  const anomalies: Anomaly[] = [];
+
+  for (const shop of shops) {
+    if (!shop.active) continue;
+    const data = allData.get(shop.code);
+    const row = data?.find(d => d.date === date);
+    if (!data || !row) continue;
+
+    const day = aggregatePeriodMetrics([row]);
+    const baseline = baselineDates
+      .map(d => data.find(r => r.date === d))
+      .filter((r): r is MarketingDailyMetrics => r !== undefined)
+      .map(r => aggregatePeriodMetrics([r]));
+
+    const check = (metric: AnomalyMetric, value: number | null, values: Array<number | null>, channel?: string) => {
+      const result = compareWithBaseline(value, values);
+      if (!result || value === null || Math.abs(result.zScore) < Z_THRESHOLD) return;
+      anomalies.push({
+        shop,
+        ...(channel && { channel: getChannelName(channel) }),
+        metric,
+        value,
+        baseline: result.mean,
+        change: result.change,
+        zScore: result.zScore,
+      });
+    };
+
+    // Market
+    check('spend', day.spend, baseline.map(b => b.spend));
+    check('mer', day.mer, baseline.map(b => b.mer));
+    const typicalOrders = baseline.reduce((sum, b) => sum + b.orders, 0) / Math.max(1, baseline.length);
+    if (typicalOrders >= MIN_BASELINE_ORDERS) {
+      check('orders', day.orders, baseline.map(b => b.orders));
+      check('ncPercent', day.ncPercent, baseline.map(b => b.ncPercent));
+    }
+
+    // Channels (a channel that stopped spending shows up as spend -100%)
+    const channels = new Set([...Object.keys(day.channels), ...baseline.flatMap(b => Object.keys(b.channels))]);
+    for (const channel of channels) {
+      const totals = day.channels[channel];
+      const channelROAS = (t: typeof totals | undefined) => (t && t.spend > 0 ? t.channelRevenue / t.spend : null);
+      check('spend', totals?.spend ?? 0, baseline.map(b => b.channels[channel]?.spend ?? 0), channel);
+      check('channelROAS', channelROAS(totals), baseline.map(b => channelROAS(b.channels[channel])), channel);
+    }
+  }
+
+  return anomalies.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+}
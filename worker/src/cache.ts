@@ -0,0 +1,132 @@
+import { DataQualityIssue, DateRange, FxRateTable, MarketTarget } from './types';
+import { MarketingDailyMetrics } from './sheets';
+import { mergeDateRanges } from './triplewhale';
+import { MarketingDataSource, MarketingDataSet } from './datasource';
+
+// =============================================================================
+// KV CACHE FOR SHOP DATA
+// =============================================================================
+
+export const DEFAULT_CACHE_TTL_SECONDS = 1800; // 30 min
+
+// Bump when the cached row shape changes so old entries are ignored instead of misread
+const CACHE_VERSION = 3;
+
+interface CachedShopData {
+  fetchedAt: string;            // ISO timestamp of the source fetch
+  rows: MarketingDailyMetrics[];
+  issues: DataQualityIssue[];
+}
+
+// Range reads are cached separately per (merged) set of ranges — a report's ranges are
+// stable through the day, so retries and previews within the TTL still hit
+function cacheKey(sourceName: string, shopCode: string, ranges?: DateRange[]): string {
+  const base = `shop-data:v${CACHE_VERSION}:${sourceName}:${shopCode}`;
+  if (!ranges) return base;
+  return `${base}:${mergeDateRanges(ranges).map(r => `${r.start}_${r.end}`).join(',')}`;
+}
+
+function fxCacheKey(sourceName: string): string {
+  return `fx-rates:v${CACHE_VERSION}:${sourceName}`;
+}
+
+function targetsCacheKey(sourceName: string): string {
+  return `targets:v${CACHE_VERSION}:${sourceName}`;
+}
+
+/**
+ * Wrap a data source with a per-shop KV cache
+ * Shops younger than the TTL are served from KV, the rest are fetched in one call to the
+ * underlying source. The returned `asOf` is the oldest fetch time across all shops.
+ * @param source Underlying data source
+ * @param kv KV namespace to store shop data in
+ * @param ttlSeconds How long a cached shop tab is considered fresh
+ */
+export function createCachedDataSource(
+  source: MarketingDataSource,
+  kv: KVNamespace,
+  ttlSeconds: number
+): MarketingDataSource {
+  return {
+    name: source.name,
+    async loadShopData(shopCodes, options = {}): Promise<MarketingDataSet> {
+      const data = new Map<string, MarketingDailyMetrics[]>();
+      const issues = new Map<string, DataQualityIssue[]>();
+      let oldest: Date | null = null;
+      const missing: string[] = [];
+
+      if (options.refresh) {
+        console.log('Cache bypass requested (refresh)');
+        missing.push(...shopCodes);
+      } else {
+        const cached = await Promise.all(
+          shopCodes.map(code => kv.get<CachedShopData>(cacheKey(source.name, code, options.ranges), 'json'))
+        );
+
+        for (let i = 0; i < shopCodes.length; i++) {
+          const entry = cached[i];
+          const fetchedAt = entry ? new Date(entry.fetchedAt) : null;
+          const ageSeconds = fetchedAt ? (Date.now() - fetchedAt.getTime()) / 1000 : Infinity;
+
+          if (entry && fetchedAt && ageSeconds <= ttlSeconds) {
+            data.set(shopCodes[i], entry.rows);
+            issues.set(shopCodes[i], entry.issues ?? []);
+            if (!oldest || fetchedAt < oldest) oldest = fetchedAt;
+          } else {
+            missing.push(shopCodes[i]);
+          }
+        }
+
+        console.log(`Cache: ${shopCodes.length - missing.length} hit, ${missing.length} miss`);
+      }
+
+      if (missing.length > 0) {
+        const fresh = await source.loadShopData(missing, options);
+        const fetchedAt = fresh.asOf.toISOString();
+
+        await Promise.all(missing.map(code => {
+          const rows = fresh.data.get(code) ?? [];
+          const shopIssues = fresh.issues.get(code) ?? [];
+          data.set(code, rows);
+          issues.set(code, shopIssues);
+          const entry: CachedShopData = { fetchedAt, rows, issues: shopIssues };
+          return kv.put(cacheKey(source.name, code, options.ranges), JSON.stringify(entry), {
+            expirationTtl: Math.max(60, ttlSeconds), // KV minimum TTL is 60s
+          });
+        }));
+
+        if (!oldest || fresh.asOf < oldest) oldest = fresh.asOf;
+      }
+
+      return { data, asOf: oldest ?? new Date(), issues };
+    },
+
+    // FX rates change at most daily — cached with the same TTL as the shop tabs
+    async loadFxRates(options = {}): Promise<FxRateTable> {
+      if (!options.refresh) {
+        const cached = await kv.get<FxRateTable>(fxCacheKey(source.name), 'json');
+        if (cached) return cached;
+      }
+
+      const rates = await source.loadFxRates(options);
+      await kv.put(fxCacheKey(source.name), JSON.stringify(rates), {
+        expirationTtl: Math.max(60, ttlSeconds),
+      });
+      return rates;
+    },
+
+    // Targets are edited by hand a few times a month — same TTL
+    async loadTargets(options = {}): Promise<MarketTarget[]> {
+      if (!options.refresh) {
+        const cached = await kv.get<MarketTarget[]>(targetsCacheKey(source.name), 'json');
+        if (cached) return cached;
+      }
+
+      const targets = await source.loadTargets(options);
+      await kv.put(targetsCacheKey(source.name), JSON.stringify(targets), {
+        expirationTtl: Math.max(60, ttlSeconds),
+      });
+      return targets;
+    },
+  };
+}
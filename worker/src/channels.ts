@@ -0,0 +1,69 @@
+import { ChannelTotals } from './types';
+
+// =============================================================================
+// CHANNEL COLUMNS (discovered from sheet headers)
+// =============================================================================
+
+// Per-channel columns: <channel>_spend, <channel>_pixel_revenue, ...
+// Longest suffix first so "meta_pixel_nc_revenue" isn't read as channel "meta_pixel_nc".
+// Optional columns aren't reported as missing (NC orders are estimated without them).
+export const CHANNEL_COLUMN_SUFFIXES: Array<{ suffix: string; field: keyof ChannelTotals; optional?: boolean }> = [
+  { suffix: '_pixel_nc_revenue', field: 'pixelNcRevenue' },
+  { suffix: '_pixel_nc_orders', field: 'pixelNcOrders', optional: true },
+  { suffix: '_channel_revenue', field: 'channelRevenue' },
+  { suffix: '_pixel_revenue', field: 'pixelRevenue' },
+  { suffix: '_spend', field: 'spend' },
+];
+
+// Display names where capitalizing the column prefix isn't enough
+const CHANNEL_NAMES: Record<string, string> = {
+  tiktok: 'TikTok',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+};
+
+/**
+ * Split a header into channel key + field (null if it isn't a per-channel column)
+ * @param header Lowercased header, e.g. "pinterest_pixel_revenue"
+ */
+export function parseChannelColumn(header: string): { channel: string; field: keyof ChannelTotals } | null {
+  for (const { suffix, field } of CHANNEL_COLUMN_SUFFIXES) {
+    if (header.endsWith(suffix) && header.length > suffix.length) {
+      return { channel: header.slice(0, -suffix.length), field };
+    }
+  }
+  return null;
+}
+
+/**
+ * Channels present in a header row, in column order
+ * @param headers Lowercased header row
+ */
+export function discoverChannels(headers: string[]): string[] {
+  const channels: string[] = [];
+  for (const header of headers) {
+    const column = parseChannelColumn(header);
+    if (column && !channels.includes(column.channel)) channels.push(column.channel);
+  }
+  return channels;
+}
+
+// Sheet column names for a channel key (optional ones only if asked for)
+export function getChannelColumns(channel: string, includeOptional: boolean = true): string[] {
+  return CHANNEL_COLUMN_SUFFIXES
+    .filter(({ optional }) => includeOptional || !optional)
+    .map(({ suffix }) => channel + suffix)
+    .reverse();
+}
+
+// "meta" → "Meta", "tiktok" → "TikTok", "microsoft_ads" → "Microsoft Ads"
+export function getChannelName(channel: string): string {
+  return CHANNEL_NAMES[channel] ?? channel
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export function emptyChannelTotals(): ChannelTotals {
+  return { spend: 0, pixelRevenue: 0, channelRevenue: 0, pixelNcRevenue: 0, pixelNcOrders: 0 };
+}
@@ -1,40 +1,40 @@
-import { SHOPS, Shop } from './shops';
-import { MarketingDailyMetrics, ServiceAccountCredentials, loadAllShopData, getMetricsForPeriod } from './sheets';
-import { aggregatePeriodMetrics, getChannelMetrics, calculateYoY } from './metrics';
-import { CountryMarketingMetrics, PeriodMarketingMetrics } from './types';
+import { Shop, getVatRate, isNewShop } from './shops';
+import { MarketingDailyMetrics, getMetricsForPeriod } from './sheets';
+import { MarketingDataSource, MarketingDataSet, LoadOptions } from './datasource';
+import { aggregatePeriodMetrics, getChannelMetrics, calculateYoY, calculateMetric } from './metrics';
+import { CountryMarketingMetrics, PeriodMarketingMetrics, ConversionOptions, MetricInputs, DateRange } from './types';
+import { convertPeriods } from './fx';
+import { withConfigTargets } from './targets';
 
 // =============================================================================
 // VAT CORRECTION
 // =============================================================================
 
 /**
- * Apply VAT correction to revenue (remove VAT)
+ * Remove VAT from revenue
  * Triple Whale reports order_revenue as VAT-inclusive.
- * We divide by (1 + vatRate) to get ex-VAT figures.
- * @param allData Map of shop code to daily metrics
+ * We divide by (1 + VAT rate in force that day) to get ex-VAT figures.
+ * @param shop Shop configuration
+ * @param rows Daily metrics (VAT-inclusive revenue)
+ * @returns Copies of the rows with ex-VAT revenue (spend is already ex-VAT)
  */
-export function applyVatCorrection(allData: Map<string, MarketingDailyMetrics[]>): void {
-  for (const shop of SHOPS) {
-    const vatDivisor = 1 + shop.vatRate;
-    if (vatDivisor === 1) continue; // No VAT
-
-    const shopData = allData.get(shop.code);
-    if (!shopData) continue;
-
-    for (const day of shopData) {
-      day.orderRevenue /= vatDivisor;
-      // Channel revenues also need VAT correction
-      day.metaPixelRevenue /= vatDivisor;
-      day.metaChannelRevenue /= vatDivisor;
-      day.metaPixelNcRevenue /= vatDivisor;
-      day.googlePixelRevenue /= vatDivisor;
-      day.googleChannelRevenue /= vatDivisor;
-      day.googlePixelNcRevenue /= vatDivisor;
-      day.tiktokPixelRevenue /= vatDivisor;
-      day.tiktokChannelRevenue /= vatDivisor;
-      day.tiktokPixelNcRevenue /= vatDivisor;
+export function removeVat(shop: Shop, rows: MarketingDailyMetrics[]): MarketingDailyMetrics[] {
+  return rows.map(day => {
+    const vatDivisor = 1 + getVatRate(shop, day.date);
+    if (vatDivisor === 1) return day; // No VAT
+
+    // Channel revenues also need VAT correction
+    const channels: MarketingDailyMetrics['channels'] = {};
+    for (const [channel, values] of Object.entries(day.channels)) {
+      channels[channel] = {
+        ...values,
+        pixelRevenue: values.pixelRevenue / vatDivisor,
+        channelRevenue: values.channelRevenue / vatDivisor,
+        pixelNcRevenue: values.pixelNcRevenue / vatDivisor,
+      };
     }
-  }
+    return { ...day, orderRevenue: day.orderRevenue / vatDivisor, channels };
+  });
 }
 
 // =============================================================================
@@ -42,22 +42,29 @@ export function applyVatCorrection(allData: Map<string, MarketingDailyMetrics[]>
 // =============================================================================
 
 /**
- * Load all marketing data from Google Sheets
- * @param credentials Google service account credentials
- * @returns Map of shop code to daily metrics (revenue INCLUDES VAT)
+ * Load all marketing data for every shop in the registry
+ * @param source Data source (Google Sheets or local fixtures)
+ * @param shops Shop registry (see loadShopRegistry)
+ * @param options Load options (e.g. refresh to bypass the cache)
+ * @returns Map of shop code to daily metrics (revenue INCLUDES VAT, local currency) + when it was fetched + FX rates + targets + registry
  */
 export async function loadAllMarketingData(
-  credentials: ServiceAccountCredentials
-): Promise<Map<string, MarketingDailyMetrics[]>> {
-  const shopCodes = SHOPS.map(s => s.code);
-  const allData = await loadAllShopData(credentials, shopCodes);
-
-  // NOTE: We do NOT apply VAT correction for marketing reports.
-  // Revenue is kept as gross (incl. VAT) to match Triple Whale and ad platforms.
+  source: MarketingDataSource,
+  shops: Shop[],
+  options: LoadOptions = {}
+): Promise<MarketingDataSet> {
+  const shopCodes = shops.map(s => s.code);
+  const [dataSet, fxRates, targets] = await Promise.all([
+    source.loadShopData(shopCodes, options),
+    source.loadFxRates(options),
+    source.loadTargets(options),
+  ]);
+
+  // NOTE: Revenue is kept as gross (incl. VAT) here to match Triple Whale and ad platforms.
+  // Ex-VAT reports remove VAT per shop and day in getCountryMetrics (vatMode: 'ex').
   // Spend is already ex-VAT (business expense).
-  // applyVatCorrection(allData);
 
-  return allData;
+  return { ...dataSet, fxRates, targets: withConfigTargets(targets), shops };
 }
 
 // =============================================================================
@@ -91,20 +98,25 @@ export function filterCountriesWithSpend(
 }
 
 /**
- * Get list of countries without spend in the period
+ * Get list of active countries without spend in the period
+ * Paused shops and shops that hadn't launched yet are left out — no spend is expected there.
+ * @param shops Shop registry
  * @param allData Map of shop code to daily metrics
  * @param startDate Period start date (YYYY-MM-DD)
  * @param endDate Period end date (YYYY-MM-DD)
  * @returns Array of shop codes with zero spend
  */
 export function getCountriesWithoutSpend(
+  shops: Shop[],
   allData: Map<string, MarketingDailyMetrics[]>,
   startDate: string,
   endDate: string
 ): string[] {
   const countriesWithSpend = filterCountriesWithSpend(allData, startDate, endDate);
-  const allCountries = SHOPS.map(s => s.code);
-  return allCountries.filter(code => !countriesWithSpend.includes(code));
+  return shops
+    .filter(shop => shop.active && shop.launchDate <= endDate)
+    .map(shop => shop.code)
+    .filter(code => !countriesWithSpend.includes(code));
 }
 
 // =============================================================================
@@ -116,91 +128,106 @@ export function getCountriesWithoutSpend(
  * @param shop Shop configuration
  * @param currentData Daily metrics for current period
  * @param yoyData Daily metrics for same period last year
- * @param includeNcOrders Include NC Orders in channel metrics (monthly)
+ * @param includeNcOrders Include NC Orders + NC-CPA in channel metrics (weekly/monthly)
+ * @param conversion FX rates, reporting currency, YoY FX mode + VAT mode (gross NOK at static rates if omitted)
  * @returns Country marketing metrics
  */
 export function getCountryMetrics(
   shop: Shop,
   currentData: MarketingDailyMetrics[],
   yoyData: MarketingDailyMetrics[],
-  includeNcOrders: boolean = false
+  includeNcOrders: boolean = false,
+  conversion: ConversionOptions = {}
 ): CountryMarketingMetrics {
-  const current = aggregatePeriodMetrics(currentData);
-  const yoy = aggregatePeriodMetrics(yoyData);
-
-  // Convert to NOK
-  const revenueNOK = current.revenue * shop.exchangeRateToNOK;
-  const yoyRevenueNOK = yoy.revenue * shop.exchangeRateToNOK;
-  const spendNOK = current.spend * shop.exchangeRateToNOK;
-  const aovNOK = (current.aov ?? 0) * shop.exchangeRateToNOK;
-
-  // Calculate total NC revenue (sum across all channels)
-  const totalNcRevenue = (
-    current.metaPixelNcRevenue +
-    current.googlePixelNcRevenue +
-    current.tiktokPixelNcRevenue
-  ) * shop.exchangeRateToNOK;
-
-  // Calculate ROAS metrics
-  const roas = spendNOK > 0 ? revenueNOK / spendNOK : 0;
-  const ncRoas = spendNOK > 0 ? totalNcRevenue / spendNOK : 0;
-
-  // Get channel metrics (only channels with spend > 0)
-  const channels = getChannelMetrics(current, includeNcOrders);
+  // Remove VAT at each day's rate (before FX, so YoY isn't skewed by rate changes)
+  if (conversion.vatMode === 'ex') {
+    currentData = removeVat(shop, currentData);
+    yoyData = removeVat(shop, yoyData);
+  }
 
-  // Convert channel spend to NOK
-  const channelsNOK = channels.map(ch => ({
-    ...ch,
-    spend: ch.spend * shop.exchangeRateToNOK,
-  }));
+  // Convert to the reporting currency day by day, then aggregate
+  const converted = convertPeriods(shop, currentData, yoyData, conversion);
+  const current = aggregatePeriodMetrics(converted.current);
+  const yoy = aggregatePeriodMetrics(converted.yoy);
+
+  const yoyRevenue = yoy.revenue;
+
+  // MER / aMER from the metric registry (NC revenue is summed across all channels)
+  const mer = calculateMetric('mer', current) ?? 0;
+  const amer = calculateMetric('amer', current) ?? 0;
+
+  // Previous-year sums for metric YoY (CAC, returning share, ...)
+  const previous: MetricInputs | null = yoyRevenue > 0
+    ? { revenue: yoy.revenue, spend: yoy.spend, orders: yoy.orders, newCustomerOrders: yoy.newCustomerOrders, ncRevenue: yoy.ncRevenue }
+    : null;
+
+  // Get channel metrics (only channels with spend > 0, already converted)
+  const channels = getChannelMetrics(current, includeNcOrders);
 
   return {
     shop,
-    revenue: revenueNOK,
-    revenueYoY: yoyRevenueNOK > 0 ? yoyRevenueNOK : null,
-    spend: spendNOK,
-    roas,
-    ncRoas,
+    revenue: current.revenue,
+    revenueLocal: currentData.reduce((sum, d) => sum + d.orderRevenue, 0),
+    revenueYoY: yoyRevenue > 0 ? yoyRevenue : null,
+    spend: current.spend,
+    mer,
+    amer,
     ncPercent: current.ncPercent ?? 0,
     orders: current.orders,
-    aov: aovNOK,
-    channels: channelsNOK,
+    aov: current.aov ?? 0,
+    ncRevenue: current.ncRevenue,
+    newCustomerOrders: current.newCustomerOrders,
+    blendedCac: calculateMetric('blendedCac', current),
+    returningRevenue: calculateMetric('returningRevenue', current) ?? 0,
+    returningShare: calculateMetric('returningShare', current),
+    previous,
+    channels,
   };
 }
 
 /**
  * Get marketing metrics for all countries with spend
+ * @param shops Shop registry
  * @param allData Map of shop code to daily metrics
  * @param startDate Period start date (YYYY-MM-DD)
  * @param endDate Period end date (YYYY-MM-DD)
  * @param yoyStartDate YoY period start date (YYYY-MM-DD)
  * @param yoyEndDate YoY period end date (YYYY-MM-DD)
- * @param includeNcOrders Include NC Orders in channel metrics
+ * @param includeNcOrders Include NC Orders + NC-CPA in channel metrics
+ * @param conversion FX rates, reporting currency, YoY FX mode + VAT mode
+ * @param yoyOverrides YoY period per shop code where it differs (peak events)
  * @returns Array of country metrics (sorted by revenue DESC)
  */
 export function getAllCountryMetrics(
+  shops: Shop[],
   allData: Map<string, MarketingDailyMetrics[]>,
   startDate: string,
   endDate: string,
   yoyStartDate: string,
   yoyEndDate: string,
-  includeNcOrders: boolean = false
+  includeNcOrders: boolean = false,
+  conversion: ConversionOptions = {},
+  yoyOverrides: Map<string, DateRange> = new Map()
 ): CountryMarketingMetrics[] {
   const countriesWithSpend = filterCountriesWithSpend(allData, startDate, endDate);
 
   const metrics: CountryMarketingMetrics[] = [];
 
   for (const shopCode of countriesWithSpend) {
-    const shop = SHOPS.find(s => s.code === shopCode);
+    const shop = shops.find(s => s.code === shopCode);
     if (!shop) continue;
 
     const data = allData.get(shopCode);
     if (!data) continue;
 
+    const yoy = yoyOverrides.get(shopCode) ?? { start: yoyStartDate, end: yoyEndDate };
     const currentData = getMetricsForPeriod(data, startDate, endDate);
-    const yoyData = getMetricsForPeriod(data, yoyStartDate, yoyEndDate);
+    const yoyData = getMetricsForPeriod(data, yoy.start, yoy.end);
 
-    metrics.push(getCountryMetrics(shop, currentData, yoyData, includeNcOrders));
+    metrics.push({
+      ...getCountryMetrics(shop, currentData, yoyData, includeNcOrders, conversion),
+      isNew: isNewShop(shop, yoy.start),
+    });
   }
 
   // Sort by revenue descending
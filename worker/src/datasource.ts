@@ -0,0 +1,230 @@
+import { Env, DataQualityIssue, DateRange, FxRateTable, MarketTarget, PixelLagModel } from './types';
+import {
+  MarketingDailyMetrics,
+  ServiceAccountCredentials,
+  loadAllShopData,
+  loadShopDataForRanges,
+  loadFxRows,
+  loadTargetRows,
+  parseShopRows,
+  getMetricsForRanges,
+} from './sheets';
+import { createCachedDataSource, DEFAULT_CACHE_TTL_SECONDS } from './cache';
+import { FX_TAB, parseFxRows } from './fx';
+import { TARGETS_TAB, parseTargetRows } from './targets';
+import { Shop } from './shops';
+
+// =============================================================================
+// DATA SOURCE INTERFACE
+// =============================================================================
+
+/**
+ * Where daily marketing rows come from.
+ * Reports, preview endpoints and MCP tools only depend on this interface,
+ * so the Google Sheet can be swapped for local fixtures when working offline.
+ */
+export interface MarketingDataSource {
+  name: string;
+  loadShopData(shopCodes: string[], options?: LoadOptions): Promise<MarketingDataSet>;
+  loadFxRates(options?: LoadOptions): Promise<FxRateTable>;
+  loadTargets(options?: LoadOptions): Promise<MarketTarget[]>;
+}
+
+export interface LoadOptions {
+  refresh?: boolean;            // Bypass any cache and reload from the source
+  ranges?: DateRange[];         // Only load rows in these date ranges (omit for full history)
+}
+
+export interface MarketingDataSet {
+  data: Map<string, MarketingDailyMetrics[]>;
+  asOf: Date;                   // When the oldest shop tab was fetched from the source
+  issues: Map<string, DataQualityIssue[]>;  // Schema/parse issues per shop tab
+  fxRates?: FxRateTable;        // Dated FX rates (static shop rates when absent)
+  targets?: MarketTarget[];     // Budgets and targets per market and month (none when absent)
+  shops?: Shop[];               // Shop registry the data was loaded for (bundled registry when absent)
+  pixelLag?: PixelLagModel;     // Pixel completion factors from stored snapshots (weekly report, health check; none without KV)
+}
+
+// =============================================================================
+// GOOGLE SHEETS
+// =============================================================================
+
+// Parse Google credentials from environment
+export function getGoogleCredentials(env: Env): ServiceAccountCredentials {
+  const creds = JSON.parse(env.GOOGLE_SERVICE_ACCOUNT);
+  return {
+    client_email: creds.client_email,
+    private_key: creds.private_key,
+  };
+}
+
+/**
+ * Data source backed by the Triple Whale → Google Sheets sync (one tab per shop)
+ * @param credentials Google service account credentials
+ * @param tokenCache Optional KV namespace for reusing the Google access token
+ */
+export function createSheetsDataSource(
+  credentials: ServiceAccountCredentials,
+  tokenCache?: KVNamespace
+): MarketingDataSource {
+  return {
+    name: 'sheets',
+    async loadShopData(shopCodes, options = {}) {
+      const asOf = new Date();
+      const tabs = options.ranges
+        ? await loadShopDataForRanges(credentials, shopCodes, options.ranges, tokenCache)
+        : await loadAllShopData(credentials, shopCodes, tokenCache);
+
+      const data = new Map<string, MarketingDailyMetrics[]>();
+      const issues = new Map<string, DataQualityIssue[]>();
+      for (const [code, tab] of tabs) {
+        data.set(code, tab.rows);
+        issues.set(code, tab.issues);
+      }
+      return { data, asOf, issues };
+    },
+    async loadFxRates() {
+      return parseFxRows(await loadFxRows(credentials, tokenCache));
+    },
+    async loadTargets() {
+      return parseTargetRows(await loadTargetRows(credentials, tokenCache));
+    },
+  };
+}
+
+// =============================================================================
+// LOCAL FIXTURES (CSV / JSON)
+// =============================================================================
+
+/**
+ * Parse CSV text into rows of cells (handles quoted cells and CRLF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === '') continue;
+
+    const cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+        else if (char === '"') inQuotes = false;
+        else cell += char;
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell);
+    rows.push(cells);
+  }
+
+  return rows;
+}
+
+// JSON fixture rows: objects keyed by sheet column name, same shape as the MCP `get_marketing_data` output
+export type FixtureRecords = Array<Record<string, string | number>>;
+
+// Fixture files by name: CSV text, or JSON rows as bundled (`.json` imports arrive parsed)
+export type FixtureFiles = Record<string, string | FixtureRecords>;
+
+// Convert JSON fixture rows into header + value rows
+function jsonToRows(records: FixtureRecords): string[][] {
+  if (!Array.isArray(records) || records.length === 0) return [];
+
+  const headers = [...new Set(records.flatMap(r => Object.keys(r)))];
+  const rows = records.map(r => headers.map(h => (r[h] === undefined ? '' : String(r[h]))));
+  return [headers, ...rows];
+}
+
+/**
+ * Data source reading one file per shop (`NO.csv`, `SE.json`, ...) with the same
+ * columns as the sheet tabs. Shops without a fixture file load as empty; FX rates come
+ * from `FX.csv` (static shop rates without it) and targets from `Targets.csv`.
+ * @param files Map of file name to file contents (CSV text or parsed JSON rows)
+ */
+export function createFixtureDataSource(files: FixtureFiles): MarketingDataSource {
+  const text = (name: string): string | undefined => {
+    const file = files[name];
+    return typeof file === 'string' ? file : undefined;
+  };
+
+  return {
+    name: 'fixtures',
+    async loadShopData(shopCodes, options = {}) {
+      const asOf = new Date();
+      console.log(`Loading fixture data for ${shopCodes.length} shops...`);
+      const dataMap = new Map<string, MarketingDailyMetrics[]>();
+      const issues = new Map<string, DataQualityIssue[]>();
+
+      for (const code of shopCodes) {
+        let rows: string[][] = [];
+        const csv = text(`${code}.csv`);
+        const json = files[`${code}.json`];
+        if (csv !== undefined) {
+          rows = parseCsv(csv);
+        } else if (json !== undefined) {
+          rows = jsonToRows(typeof json === 'string' ? JSON.parse(json) as FixtureRecords : json);
+        }
+
+        const tab = parseShopRows(code, rows);
+        const shopRows = options.ranges ? getMetricsForRanges(tab.rows, options.ranges) : tab.rows;
+        shopRows.sort((a, b) => a.date.localeCompare(b.date));
+        console.log(`  ${code}: ${shopRows.length} days loaded`);
+        dataMap.set(code, shopRows);
+        issues.set(code, tab.issues);
+      }
+
+      return { data: dataMap, asOf, issues };
+    },
+    async loadFxRates() {
+      const csv = text(`${FX_TAB}.csv`);
+      return csv === undefined ? {} : parseFxRows(parseCsv(csv));
+    },
+    async loadTargets() {
+      const csv = text(`${TARGETS_TAB}.csv`);
+      return csv === undefined ? [] : parseTargetRows(parseCsv(csv));
+    },
+  };
+}
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+// Fixture source that imports the bundled files on first use, so sheets deployments never load them
+function createBundledFixtureDataSource(): MarketingDataSource {
+  const load = async () => createFixtureDataSource((await import('../fixtures')).FIXTURE_FILES);
+  return {
+    name: 'fixtures',
+    loadShopData: async (shopCodes, options) => (await load()).loadShopData(shopCodes, options),
+    loadFxRates: async options => (await load()).loadFxRates(options),
+    loadTargets: async options => (await load()).loadTargets(options),
+  };
+}
+
+/**
+ * Pick the data source configured for this environment
+ * DATA_SOURCE = "fixtures" reads the bundled files in worker/fixtures/, anything else uses Google Sheets.
+ * Sheets data is cached in KV when the MARKETING_CACHE binding exists.
+ */
+export function createDataSource(env: Env): MarketingDataSource {
+  if (env.DATA_SOURCE === 'fixtures') {
+    return createBundledFixtureDataSource();
+  }
+
+  const sheets = createSheetsDataSource(getGoogleCredentials(env), env.MARKETING_CACHE);
+  if (!env.MARKETING_CACHE) return sheets;
+
+  const ttlSeconds = parseInt(env.CACHE_TTL_SECONDS ?? '', 10) || DEFAULT_CACHE_TTL_SECONDS;
+  return createCachedDataSource(sheets, env.MARKETING_CACHE, ttlSeconds);
+}
@@ -0,0 +1,202 @@
+import { ComparisonColumn, ComparisonMetric, ComparisonReport, Env, MarketGroupMode, ReportOptions, YoYAlignment } from './types';
+import { normalizeCurrency } from './fx';
+import { MARKET_GROUP_MODES } from './groups';
+import { YOY_ALIGNMENTS } from './triplewhale';
+import { Shop } from './shops';
+
+// =============================================================================
+// REPORT OPTIONS
+// =============================================================================
+
+function parseMarketGroupMode(value: string | null | undefined): MarketGroupMode | null {
+  return MARKET_GROUP_MODES.find(mode => mode === value) ?? null;
+}
+
+function parseYoYAlignment(value: string | null | undefined): YoYAlignment | null {
+  return YOY_ALIGNMENTS.find(alignment => alignment === value) ?? null;
+}
+
+// Metric names accepted after "pop:" / "yoy:" ("ROAS" is MER at store level)
+const COMPARISON_METRICS: Record<string, ComparisonMetric> = {
+  revenue: 'revenue',
+  spend: 'spend',
+  mer: 'mer',
+  roas: 'mer',
+  nc: 'ncPercent',
+};
+
+const DEFAULT_COMPARISONS: Record<ComparisonReport, ComparisonColumn[]> = {
+  daily: [{ basis: 'yoy', metric: 'revenue' }, { basis: 'pop', metric: 'revenue' }],
+  weekly: [
+    { basis: 'yoy', metric: 'revenue' },
+    { basis: 'pop', metric: 'revenue' },
+    { basis: 'pop', metric: 'spend' },
+    { basis: 'pop', metric: 'mer' },
+    { basis: 'pop', metric: 'ncPercent' },
+  ],
+  monthly: [{ basis: 'yoy', metric: 'revenue' }, { basis: 'pop', metric: 'revenue' }],
+};
+
+// "yoy,pop,pop:spend" → columns in that order ("yoy" / "pop" alone = revenue, "none" = no columns);
+// null if nothing valid
+function parseComparisons(value: string | null | undefined): ComparisonColumn[] | null {
+  if (!value) return null;
+  if (value.trim() === 'none') return [];
+  const columns = value.split(',').flatMap((token): ComparisonColumn[] => {
+    const [basis, metric = 'revenue'] = token.trim().toLowerCase().split(':');
+    const id = COMPARISON_METRICS[metric];
+    return (basis === 'yoy' || basis === 'pop') && id ? [{ basis, metric: id }] : [];
+  });
+  return columns.length > 0 ? columns : null;
+}
+
+/**
+ * Report options from env defaults, overridable per request
+ * (?currency=EUR, ?local=1, ?fx=constant|actual, ?yoy=weekday|calendar, ?events=peak|off, ?vat=ex|incl, ?groups=subtotals|collapsed|off, ?weighted=1,
+ * ?compare=yoy,pop:spend for whichever report is rendered)
+ * @param env Worker environment
+ * @param shops Shop registry (report currencies are NOK + the registry's shop currencies)
+ * @param url Request URL (omit for scheduled runs)
+ */
+export function getReportOptions(env: Env, shops: Shop[], url?: URL): ReportOptions {
+  const yoyFxMode = url?.searchParams.get('fx') ?? env.YOY_FX_MODE;
+  const vatMode = url?.searchParams.get('vat') ?? env.VAT_MODE;
+  const compare = parseComparisons(url?.searchParams.get('compare'));
+  return {
+    currency: normalizeCurrency(url?.searchParams.get('currency'), shops) ?? normalizeCurrency(env.REPORT_CURRENCY, shops) ?? 'NOK',
+    showLocalCurrency: url?.searchParams.get('local') === '1',
+    yoyFxMode: yoyFxMode === 'constant' ? 'constant' : 'actual',
+    yoyAlignment: parseYoYAlignment(url?.searchParams.get('yoy')) ?? parseYoYAlignment(env.YOY_ALIGNMENT) ?? 'weekday',
+    eventAlignment: (url?.searchParams.get('events') ?? env.EVENT_ALIGNMENT) !== 'off',
+    vatMode: vatMode === 'ex' ? 'ex' : 'incl',
+    marketGroups: parseMarketGroupMode(url?.searchParams.get('groups')) ?? parseMarketGroupMode(env.MARKET_GROUPS) ?? 'subtotals',
+    showWeightedTotals: (url?.searchParams.get('weighted') ?? env.SHOW_WEIGHTED_TOTALS) === '1',
+    comparisons: {
+      daily: compare ?? parseComparisons(env.DAILY_COMPARISONS) ?? DEFAULT_COMPARISONS.daily,
+      weekly: compare ?? parseComparisons(env.WEEKLY_COMPARISONS) ?? DEFAULT_COMPARISONS.weekly,
+      monthly: compare ?? parseComparisons(env.MONTHLY_COMPARISONS) ?? DEFAULT_COMPARISONS.monthly,
+    },
+  };
+}
+
+// =============================================================================
+// SLACK DESTINATIONS
+// =============================================================================
+
+export interface SlackDestination {
+  name: string;                 // Env var holding the webhook URL (for logs)
+  webhookUrl: string;
+  options: ReportOptions;
+}
+
+// One entry of SLACK_DESTINATIONS, e.g.
+// { "webhook": "SLACK_WEBHOOK_URL_MARKETING_FINANCE", "currency": "EUR", "localCurrency": true, "vat": "ex", "groups": "collapsed", "yoy": "calendar",
+//   "compare": { "weekly": "yoy,pop" } }
+interface DestinationConfig {
+  webhook: string;
+  currency?: string;
+  localCurrency?: boolean;
+  yoyFx?: string;
+  yoy?: string;
+  events?: string;
+  vat?: string;
+  groups?: string;
+  compare?: Partial<Record<ComparisonReport, string>>;
+}
+
+const DEFAULT_DESTINATIONS: DestinationConfig[] = [{ webhook: 'SLACK_WEBHOOK_URL_MARKETING' }];
+
+// Validate parsed SLACK_DESTINATIONS (throws on anything that isn't a list of { webhook, ... })
+function parseDestinationConfigs(value: unknown): DestinationConfig[] {
+  if (!Array.isArray(value)) {
+    throw new Error('must be a JSON array');
+  }
+
+  return value.map((entry, i) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new Error(`entry ${i} must be an object`);
+    }
+    const config = entry as Record<string, unknown>;
+    if (typeof config.webhook !== 'string' || config.webhook === '') {
+      throw new Error(`entry ${i}: "webhook" must be a non-empty string`);
+    }
+    return config as unknown as DestinationConfig;
+  });
+}
+
+/**
+ * Read a secret or var named at runtime (e.g. a webhook named in SLACK_DESTINATIONS)
+ * @param env Worker environment
+ * @param name Binding name
+ * @returns The value, or undefined if the binding is missing or not a string
+ */
+export function getEnvString(env: Env, name: string): string | undefined {
+  const value: unknown = (env as unknown as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Slack webhooks the scheduled reports go to, each with its own report options
+ * SLACK_DESTINATIONS is a JSON list; without it, reports go to SLACK_WEBHOOK_URL_MARKETING
+ * with the env defaults. Entries with an unset webhook or unknown currency are skipped.
+ * @param env Worker environment
+ * @param shops Shop registry (see getReportOptions)
+ */
+export function getSlackDestinations(env: Env, shops: Shop[]): SlackDestination[] {
+  let configs = DEFAULT_DESTINATIONS;
+  if (env.SLACK_DESTINATIONS) {
+    try {
+      configs = parseDestinationConfigs(JSON.parse(env.SLACK_DESTINATIONS));
+    } catch (error) {
+      console.error(`Invalid SLACK_DESTINATIONS (${error}) — using ${DEFAULT_DESTINATIONS[0].webhook}`);
+    }
+  }
+
+  const defaults = getReportOptions(env, shops);
+  const destinations: SlackDestination[] = [];
+
+  for (const config of configs) {
+    const webhookUrl = getEnvString(env, config.webhook);
+    if (!webhookUrl) {
+      console.error(`Slack destination ${config.webhook}: webhook secret not set — skipped`);
+      continue;
+    }
+
+    const currency = config.currency ? normalizeCurrency(config.currency, shops) : defaults.currency;
+    if (!currency) {
+      console.error(`Slack destination ${config.webhook}: unsupported currency "${config.currency}" — skipped`);
+      continue;
+    }
+
+    destinations.push({
+      name: config.webhook,
+      webhookUrl,
+      options: {
+        currency,
+        showLocalCurrency: config.localCurrency ?? defaults.showLocalCurrency,
+        yoyFxMode: config.yoyFx === 'constant' || config.yoyFx === 'actual' ? config.yoyFx : defaults.yoyFxMode,
+        yoyAlignment: parseYoYAlignment(config.yoy) ?? defaults.yoyAlignment,
+        eventAlignment: config.events === 'off' || config.events === 'peak' ? config.events === 'peak' : defaults.eventAlignment,
+        vatMode: config.vat === 'ex' || config.vat === 'incl' ? config.vat : defaults.vatMode,
+        marketGroups: parseMarketGroupMode(config.groups) ?? defaults.marketGroups,
+        showWeightedTotals: defaults.showWeightedTotals,
+        comparisons: {
+          daily: parseComparisons(config.compare?.daily) ?? defaults.comparisons.daily,
+          weekly: parseComparisons(config.compare?.weekly) ?? defaults.comparisons.weekly,
+          monthly: parseComparisons(config.compare?.monthly) ?? defaults.comparisons.monthly,
+        },
+      },
+    });
+  }
+
+  return destinations;
+}
+
+// Test channel for the /send-* endpoints, with options from the request
+export function getTestDestination(env: Env, shops: Shop[], url: URL): SlackDestination {
+  return {
+    name: 'SLACK_WEBHOOK_URL_MARKETING_TEST',
+    webhookUrl: env.SLACK_WEBHOOK_URL_MARKETING_TEST,
+    options: getReportOptions(env, shops, url),
+  };
+}
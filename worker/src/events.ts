@@ -0,0 +1,117 @@
+import { Shop } from './shops';
+import { shiftDate } from './triplewhale';
+import { DateRange, EventAlignment, SeasonEvent } from './types';
+import EVENT_CONFIG from '../config/events.json';
+
+// =============================================================================
+// EVENT CALENDAR
+// =============================================================================
+
+export const SEASON_EVENT_LABELS: Record<SeasonEvent, string> = {
+  singles_day: 'Singles\' Day',
+  black_friday: 'Black Friday',
+  cyber_monday: 'Cyber Monday',
+  shipping_cutoff: 'last shipping day',
+};
+
+// When two events are equally close, the first one listed wins
+const EVENT_PRIORITY: SeasonEvent[] = ['black_friday', 'cyber_monday', 'shipping_cutoff', 'singles_day'];
+
+// Last day to order for delivery before Christmas, per market and year (config/events.json)
+const SHIPPING_CUTOFFS: Record<string, Record<string, string>> = EVENT_CONFIG.shippingCutoffs;
+
+// Day after the fourth Thursday of November (US Thanksgiving)
+function getBlackFriday(year: number): string {
+  const novemberFirst = new Date(Date.UTC(year, 10, 1)).getUTCDay();
+  const firstThursday = 1 + ((4 - novemberFirst + 7) % 7);
+  return `${year}-11-${String(firstThursday + 22).padStart(2, '0')}`;
+}
+
+/**
+ * Peak events of a year for a market
+ * Black Friday, Cyber Monday and Singles' Day are the same everywhere; the last shipping day comes
+ * from config/events.json and is missing for years without an entry.
+ * @param shop Shop configuration
+ * @param year Calendar year
+ */
+export function getSeasonEvents(shop: Shop, year: number): Array<{ event: SeasonEvent; date: string }> {
+  const blackFriday = getBlackFriday(year);
+  const events: Array<{ event: SeasonEvent; date: string }> = [
+    { event: 'singles_day', date: `${year}-11-11` },
+    { event: 'black_friday', date: blackFriday },
+    { event: 'cyber_monday', date: shiftDate(blackFriday, 3) },
+  ];
+  const cutoff = SHIPPING_CUTOFFS[shop.code]?.[String(year)];
+  if (cutoff) events.push({ event: 'shipping_cutoff', date: cutoff });
+  return events;
+}
+
+/**
+ * Markets without a last shipping day for a year or the year before in config/events.json
+ * (their YoY can't be lined up by it, so the event is left out for them)
+ * @param shops Shop configurations
+ * @param year Calendar year
+ * @returns Shop codes
+ */
+export function getMissingShippingCutoffs(shops: Shop[], year: number): string[] {
+  return shops
+    .filter(shop => !SHIPPING_CUTOFFS[shop.code]?.[String(year)] || !SHIPPING_CUTOFFS[shop.code]?.[String(year - 1)])
+    .map(shop => shop.code);
+}
+
+// =============================================================================
+// EVENT ALIGNMENT
+// =============================================================================
+
+// Peak season: periods ending Nov 1 – Dec 24 are lined up by event in the daily and weekly reports
+const PEAK_SEASON_START = '11-01';
+const PEAK_SEASON_END = '12-24';
+
+// An event this many days or fewer outside a period still anchors it (the run-up and the days after)
+const EVENT_WINDOW_DAYS = 7;
+
+export function isPeakSeason(date: string): boolean {
+  const monthDay = date.slice(5);
+  return monthDay >= PEAK_SEASON_START && monthDay <= PEAK_SEASON_END;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to + 'T00:00:00Z') - Date.parse(from + 'T00:00:00Z')) / 86400000);
+}
+
+// Days from a period to an event (0 when the event falls inside it)
+function distanceToEvent(period: DateRange, date: string): number {
+  if (date < period.start) return daysBetween(date, period.start);
+  if (date > period.end) return daysBetween(period.end, date);
+  return 0;
+}
+
+/**
+ * The peak event a period is lined up by: the closest event within EVENT_WINDOW_DAYS that the market
+ * also had last year
+ * @param shop Shop configuration
+ * @param period Reported period
+ * @returns This and last year's event date, or null if no event is near
+ */
+export function getEventAlignment(shop: Shop, period: DateRange): EventAlignment | null {
+  const year = Number(period.end.slice(0, 4));
+  const previous = getSeasonEvents(shop, year - 1);
+
+  const candidates = getSeasonEvents(shop, year)
+    .map(e => ({ ...e, distance: distanceToEvent(period, e.date), previousDate: previous.find(p => p.event === e.event)?.date }))
+    .filter(e => e.distance <= EVENT_WINDOW_DAYS && e.previousDate !== undefined)
+    .sort((a, b) => a.distance - b.distance || EVENT_PRIORITY.indexOf(a.event) - EVENT_PRIORITY.indexOf(b.event));
+
+  const best = candidates[0];
+  return best ? { shopCode: shop.code, event: best.event, date: best.date, previousDate: best.previousDate! } : null;
+}
+
+/**
+ * Last year's period at the same distance from the event
+ * @param period Reported period
+ * @param alignment From getEventAlignment
+ */
+export function getEventYoYPeriod(period: DateRange, alignment: EventAlignment): DateRange {
+  const shift = daysBetween(alignment.date, alignment.previousDate);
+  return { start: shiftDate(period.start, shift), end: shiftDate(period.end, shift) };
+}
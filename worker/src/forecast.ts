@@ -0,0 +1,183 @@
+import { MarketingDailyMetrics } from './sheets';
+import { shiftDate } from './triplewhale';
+import { DateRange, Projection } from './types';
+
+// =============================================================================
+// PROFILE
+// =============================================================================
+
+// Prior years used for the day-of-week + seasonality profile, 364 days apart so weekdays line up
+const PROFILE_YEARS = 2;
+
+// A prior year needs rows for at least this share of the month to be used
+const MIN_PROFILE_COVERAGE = 0.8;
+
+// z for the 80% range shown next to the projection
+const RANGE_Z = 1.2816;
+
+// Daily noise assumed when there are too few days this month to measure it
+const DEFAULT_DAILY_NOISE = 0.25;
+
+/**
+ * Month of a date: first and last day
+ * @param date Any day in the month (YYYY-MM-DD)
+ */
+export function getMonthBounds(date: string): DateRange {
+  const [year, month] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = date.slice(0, 8);
+  return { start: `${prefix}01`, end: `${prefix}${String(lastDay).padStart(2, '0')}` };
+}
+
+/**
+ * Rows the projection needs for the month of `endDate`: the month so far and the same
+ * weekday-aligned days in each profile year
+ * @param endDate Last day with actuals (YYYY-MM-DD)
+ */
+export function getForecastWindows(endDate: string): DateRange[] {
+  const month = getMonthBounds(endDate);
+  const windows: DateRange[] = [{ start: month.start, end: endDate }];
+  for (let year = 1; year <= PROFILE_YEARS; year++) {
+    windows.push({ start: shiftDate(month.start, -364 * year), end: shiftDate(month.end, -364 * year) });
+  }
+  return windows;
+}
+
+function getMonthDates(month: DateRange): string[] {
+  const dates: string[] = [];
+  for (let date = month.start; date <= month.end; date = shiftDate(date, 1)) dates.push(date);
+  return dates;
+}
+
+/**
+ * Relative weight of each day in the month (mean 1), from the same weekday-aligned days in prior years
+ * Each year is normalised to its own mean, then years are averaged; days without a prior-year row
+ * get weight 1. Without any usable year every day weighs the same.
+ */
+function getDayWeights(
+  dates: string[],
+  rows: Map<string, MarketingDailyMetrics>,
+  value: (row: MarketingDailyMetrics) => number
+): number[] {
+  const years: number[][] = [];
+
+  for (let year = 1; year <= PROFILE_YEARS; year++) {
+    const values = dates.map(date => {
+      const row = rows.get(shiftDate(date, -364 * year));
+      return row ? value(row) : null;
+    });
+    const present = values.filter((v): v is number => v !== null);
+    const mean = present.reduce((sum, v) => sum + v, 0) / Math.max(1, present.length);
+    if (present.length < dates.length * MIN_PROFILE_COVERAGE || mean <= 0) continue;
+    years.push(values.map(v => (v === null ? 1 : v / mean)));
+  }
+
+  if (years.length === 0) return dates.map(() => 1);
+  return dates.map((_, i) => years.reduce((sum, weights) => sum + weights[i], 0) / years.length);
+}
+
+// =============================================================================
+// PROJECTION
+// =============================================================================
+
+/**
+ * Project one series to month end
+ * The month-to-date total sets the level (actuals ÷ their profile weights); the remaining days
+ * follow the profile. The range combines the uncertainty in that level with day-to-day noise,
+ * both measured from how far this month's days strayed from the profile.
+ * @returns Projected month total and the half-width of its 80% range
+ */
+function projectSeries(actuals: number[], weights: number[]): { total: number; margin: number } {
+  const elapsed = actuals.length;
+  const actualTotal = actuals.reduce((sum, v) => sum + v, 0);
+  const elapsedWeight = weights.slice(0, elapsed).reduce((sum, w) => sum + w, 0);
+  const remaining = weights.slice(elapsed);
+  if (remaining.length === 0 || elapsedWeight <= 0 || actualTotal <= 0) return { total: actualTotal, margin: 0 };
+
+  const level = actualTotal / elapsedWeight;
+  const residuals = actuals.map((v, i) => v / (level * weights[i]) - 1);
+  const noise = elapsed >= 3
+    ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (elapsed - 1))
+    : DEFAULT_DAILY_NOISE;
+
+  const remainingWeight = remaining.reduce((sum, w) => sum + w, 0);
+  const levelVariance = (remainingWeight * level * noise) ** 2 / elapsed;
+  const dailyVariance = remaining.reduce((sum, w) => sum + (level * w * noise) ** 2, 0);
+
+  return {
+    total: actualTotal + level * remainingWeight,
+    margin: RANGE_Z * Math.sqrt(levelVariance + dailyVariance),
+  };
+}
+
+/**
+ * Project a market's revenue and spend to the end of the month
+ * Worked out on the sheet's own figures and returned as multiples of the month so far, so the caller
+ * can apply them to month-to-date figures in any currency or VAT mode.
+ * @param data Daily metrics for the shop (must cover getForecastWindows)
+ * @param endDate Last day with actuals (YYYY-MM-DD)
+ * @returns Projection as multiples of the month-to-date figures, or null if the month is over or has no actuals
+ */
+export function projectMonthEnd(data: MarketingDailyMetrics[], endDate: string): Projection | null {
+  const month = getMonthBounds(endDate);
+  if (endDate >= month.end) return null;
+
+  const rows = new Map(data.map(row => [row.date, row]));
+  const dates = getMonthDates(month);
+  const elapsed = dates.filter(date => date <= endDate);
+  const actual = (value: (row: MarketingDailyMetrics) => number) => elapsed.map(date => {
+    const row = rows.get(date);
+    return row ? value(row) : 0;
+  });
+
+  const revenueActuals = actual(row => row.orderRevenue);
+  const spendActuals = actual(row => row.spend);
+  const revenueSoFar = revenueActuals.reduce((sum, v) => sum + v, 0);
+  const spendSoFar = spendActuals.reduce((sum, v) => sum + v, 0);
+  if (revenueSoFar <= 0 && spendSoFar <= 0) return null;
+
+  const revenue = projectSeries(revenueActuals, getDayWeights(dates, rows, row => row.orderRevenue));
+  const spend = projectSeries(spendActuals, getDayWeights(dates, rows, row => row.spend));
+  const multiple = (value: number, soFar: number) => (soFar > 0 ? value / soFar : 1);
+
+  return {
+    revenue: multiple(revenue.total, revenueSoFar),
+    revenueMargin: multiple(revenue.margin, revenueSoFar),
+    spend: multiple(spend.total, spendSoFar),
+    spendMargin: multiple(spend.margin, spendSoFar),
+  };
+}
+
+/**
+ * Scale a projection (multiples of month to date) to amounts
+ * @param multiples From projectMonthEnd
+ * @param monthToDate Month-to-date revenue and spend in the reporting currency
+ */
+export function applyProjection(multiples: Projection, monthToDate: { revenue: number; spend: number }): Projection {
+  return {
+    revenue: multiples.revenue * monthToDate.revenue,
+    revenueMargin: multiples.revenueMargin * monthToDate.revenue,
+    spend: multiples.spend * monthToDate.spend,
+    spendMargin: multiples.spendMargin * monthToDate.spend,
+  };
+}
+
+/**
+ * Combine market projections into a group or total projection
+ * Amounts add up; ranges are combined as independent errors (root of summed squares).
+ * @param projections Market projections (markets without one are left out)
+ * @returns Combined projection, or undefined if no market has one
+ */
+export function sumProjections(projections: Array<Projection | undefined>): Projection | undefined {
+  const present = projections.filter((p): p is Projection => p !== undefined);
+  if (present.length === 0) return undefined;
+
+  const total = (field: keyof Projection) => present.reduce((sum, p) => sum + p[field], 0);
+  const combined = (field: keyof Projection) => Math.sqrt(present.reduce((sum, p) => sum + p[field] ** 2, 0));
+  return {
+    revenue: total('revenue'),
+    revenueMargin: combined('revenueMargin'),
+    spend: total('spend'),
+    spendMargin: combined('spendMargin'),
+  };
+}
@@ -1,4 +1,6 @@
-import { CountryMarketingMetrics, TrendData, Channel, ChannelMetrics } from './types';
+import { CountryMarketingMetrics, TrendData, ChannelMetrics, MarketGroupMetrics, ReportTotals, MetricId, MetricInputs, ComparisonColumn, Anomaly, AnomalyMetric, TrackingAlert, Projection, PeriodTarget, SeasonComparison, SeasonPacePoint } from './types';
+import { METRICS, calculateMetric } from './metrics';
+import { compareWithTarget, TARGET_STATUS_MARKERS } from './targets';
 
 // =============================================================================
 // BASIC FORMATTING UTILITIES (from P&L bot)
@@ -41,10 +43,11 @@ export function formatChange(current: number, previous: number | null): string {
 }
 
 /**
- * Format YoY comparison (NEW for new markets, cap at ±999%)
+ * Format YoY comparison (NEW for markets launched after the YoY period started, cap at ±999%)
  */
-export function formatYoY(current: number, yoy: number | null): string {
-  if (yoy === null || yoy === 0) return current > 0 ? 'NEW' : '—';
+export function formatYoY(current: number, yoy: number | null, isNew: boolean = false): string {
+  if (isNew) return 'NEW';
+  if (yoy === null || yoy === 0) return '—';
   if (yoy < 0) return '—'; // Don't show YoY for negative previous values
   const change = ((current / yoy) - 1) * 100;
   // Cap at ±999% but show actual value
@@ -54,6 +57,91 @@ export function formatYoY(current: number, yoy: number | null): string {
   return `${sign}${change.toFixed(1)}%`;
 }
 
+/**
+ * Format a change in percentage points with sign (e.g. "+2.1pp"), '—' if either side is missing
+ */
+export function formatPointChange(current: number | null, previous: number | null): string {
+  if (current === null || previous === null) return '—';
+  const change = current - previous;
+  const sign = change >= 0 ? '+' : '';
+  return `${sign}${change.toFixed(1)}pp`;
+}
+
+/**
+ * Format a registry metric value by its format ('—' if null)
+ */
+export function formatMetric(id: MetricId, value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  switch (METRICS[id].format) {
+    case 'amount': return formatRevenue(value);
+    case 'ratio': return value.toFixed(1);
+    case 'percent': return formatPercent(value);
+    case 'count': return Math.round(value).toString();
+  }
+}
+
+// Row values keyed by metric id (country metrics, totals, trend rows)
+type MetricValues = Partial<Record<MetricId, number | null>>;
+
+// A table column rendered from the metric registry
+interface MetricColumn {
+  metric: MetricId;
+  width: number;
+}
+
+function metricHeaders(columns: MetricColumn[]): string {
+  return columns.map(c => `  ${padLeft(METRICS[c.metric].label, c.width)}`).join('');
+}
+
+function metricCells(columns: MetricColumn[], row: MetricValues): string {
+  return columns.map(c => `  ${padLeft(formatMetric(c.metric, row[c.metric]), c.width)}`).join('');
+}
+
+// Cells for the weighted debug row: only metrics the old calculation had, blanks elsewhere
+function weightedCells(columns: MetricColumn[], weighted: MetricValues): string {
+  return columns
+    .map(c => `  ${padLeft(weighted[c.metric] === undefined ? '' : formatMetric(c.metric, weighted[c.metric]), c.width)}`)
+    .join('');
+}
+
+// =============================================================================
+// COMPARISON COLUMNS (YoY / PoP)
+// =============================================================================
+
+// Revenue YoY only (the tables' original single comparison column)
+const DEFAULT_COMPARISONS: ComparisonColumn[] = [{ basis: 'yoy', metric: 'revenue' }];
+
+// "YoY" / "WoW" for revenue, "Spend WoW", "NC% YoY", ... for the rest
+function comparisonLabel(column: ComparisonColumn, popLabel: string): string {
+  const basis = column.basis === 'yoy' ? 'YoY' : popLabel;
+  return column.metric === 'revenue' ? basis : `${METRICS[column.metric].label} ${basis}`;
+}
+
+function comparisonWidth(column: ComparisonColumn, popLabel: string): number {
+  return Math.max(9, displayWidth(comparisonLabel(column, popLabel)));
+}
+
+/**
+ * Format one comparison cell: % change, or the change in percentage points for NC%
+ * @param column Metric and basis
+ * @param current This period's sums
+ * @param previous Last year's or the period before's sums (null / undefined = no data, '—')
+ * @param isNew Market launched after the YoY period started (YoY shows "NEW")
+ */
+export function formatComparison(
+  column: ComparisonColumn,
+  current: MetricInputs,
+  previous: MetricInputs | null | undefined,
+  isNew: boolean = false
+): string {
+  if (column.basis === 'yoy' && isNew) return 'NEW';
+  if (!previous) return '—';
+  const value = calculateMetric(column.metric, current);
+  const before = calculateMetric(column.metric, previous);
+  if (column.metric === 'ncPercent') return formatPointChange(value, before);
+  return value === null ? '—' : formatYoY(value, before);
+}
+
 // =============================================================================
 // MONOSPACE WIDTH CALCULATION (emoji-aware)
 // =============================================================================
@@ -105,74 +193,220 @@ export function separator(headerLine: string): string {
 // MAIN TABLE FORMATTING
 // =============================================================================
 
+// Table body by market group: countries then a subtotal row per group of 2+ markets, or group rows only when collapsed
+function groupedRows(
+  countries: CountryMarketingMetrics[],
+  groups: MarketGroupMetrics[],
+  collapsed: boolean,
+  countryRow: (country: CountryMarketingMetrics) => string,
+  groupRow: (group: MarketGroupMetrics) => string
+): string {
+  if (groups.length === 0) return countries.map(countryRow).join('');
+  if (collapsed) return groups.map(groupRow).join('');
+  return groups
+    .map(group => group.countries.map(countryRow).join('') + (group.countries.length > 1 ? groupRow(group) : ''))
+    .join('');
+}
+
+// Columns after Revenue (and Local)
+const MAIN_TABLE_COLUMNS: MetricColumn[] = [
+  { metric: 'spend', width: 9 },
+  { metric: 'mer', width: 7 },
+  { metric: 'amer', width: 9 },
+  { metric: 'ncPercent', width: 7 },
+  { metric: 'orders', width: 7 },
+  { metric: 'aov', width: 9 },
+];
+
 /**
- * Format main table: Store | Revenue | Spend | ROAS | NC ROAS | NC | Orders | AOV | YoY (optional)
+ * Format main table: Store | Revenue | Local (optional) | Spend | MER | aMER | NC% | Orders | AOV | comparisons (YoY, PoP, ...)
+ * Metric columns are labelled and formatted from the metric registry.
+ * With market groups, countries are listed per group followed by a "Σ <group>" subtotal row
+ * (skipped for single-country groups), or only the group rows when collapsed.
  * @param countries Array of country metrics (sorted by revenue DESC)
  * @param totals Total metrics across all countries
- * @param showYoY Whether to show YoY column (default: true, false for daily reports)
+ * @param comparisons Comparison columns, in order (default: revenue YoY)
+ * @param showLocalCurrency Whether to show revenue in each market's own currency next to the converted figure
+ * @param groups Market groups to subtotal (omit or empty for a flat list)
+ * @param collapsed Show group rows only
+ * @param showWeighted Add the old revenue-weighted ratios under TOTAL and group rows (debug view)
+ * @param showProjection Add month-end projection columns: EOM Rev | ± (80% range) | EOM Spend | EOM MER
+ * @param showTargets Add target columns: Budget (% used) | MER/aMER/CAC vs target | status marker
+ * @param popLabel Header for PoP columns ("DoD", "WoW", "MoM")
  * @returns Formatted table string
  */
 export function formatMainTable(
   countries: CountryMarketingMetrics[],
-  totals: {
-    revenue: number;
-    spend: number;
-    roas: number;
-    ncRoas: number;
-    ncPercent: number;
-    orders: number;
-    aov: number;
-    vsLY: number | null;
-  },
-  showYoY: boolean = true
+  totals: ReportTotals,
+  comparisons: ComparisonColumn[] = DEFAULT_COMPARISONS,
+  showLocalCurrency: boolean = false,
+  groups: MarketGroupMetrics[] = [],
+  collapsed: boolean = false,
+  showWeighted: boolean = false,
+  showProjection: boolean = false,
+  showTargets: boolean = false,
+  popLabel: string = 'PoP'
 ): string {
+  const groupLabel = (group: MarketGroupMetrics) => `Σ ${group.name}`;
+  const storeWidth = Math.max(10, ...groups.map(g => displayWidth(groupLabel(g))));
+
   // Build header conditionally
-  let header = `${padRight('Store', 10)} ${padLeft('Revenue', 11)}  ${padLeft('Spend', 9)}  ${padLeft('ROAS', 7)}  ${padLeft('NC ROAS', 9)}  ${padLeft('NC', 7)}  ${padLeft('Orders', 7)}  ${padLeft('AOV', 9)}`;
-  if (showYoY) {
-    header += `  ${padLeft('YoY', 9)}`;
+  const localHeader = showLocalCurrency ? `  ${padLeft('Local', 15)}` : '';
+  let header = `${padRight('Store', storeWidth)} ${padLeft(METRICS.revenue.label, 11)}${localHeader}${metricHeaders(MAIN_TABLE_COLUMNS)}`;
+  for (const column of comparisons) {
+    header += `  ${padLeft(comparisonLabel(column, popLabel), comparisonWidth(column, popLabel))}`;
+  }
+  if (showProjection) {
+    header += `  ${padLeft('EOM Rev', 11)}  ${padLeft('±', 5)}  ${padLeft('EOM Spend', 10)}  ${padLeft('EOM MER', 7)}`;
   }
+  if (showTargets) {
+    header += `  ${padLeft('Budget', 6)}  ${padLeft('MER Δ', 6)}  ${padLeft('aMER Δ', 6)}  ${padLeft('CAC Δ', 6)}`;
+  }
+
+  // One row of figures; `local` is the Local column text
+  const formatRow = (
+    label: string,
+    row: MetricValues & MetricInputs & {
+      mer: number; amer: number; blendedCac: number | null;
+      previous: MetricInputs | null; previousPeriod?: MetricInputs | null; projection?: Projection; target?: PeriodTarget;
+    },
+    local: string,
+    isNew: boolean = false
+  ): string => {
+    const store = padRight(label, storeWidth);
+    const revenue = padLeft(formatMetric('revenue', row.revenue), 11);
+    const localColumn = showLocalCurrency ? `  ${padLeft(local, 15)}` : '';
+
+    let line = `${store} ${revenue}${localColumn}${metricCells(MAIN_TABLE_COLUMNS, row)}`;
+    for (const column of comparisons) {
+      const previous = column.basis === 'yoy' ? row.previous : row.previousPeriod;
+      line += `  ${padLeft(formatComparison(column, row, previous, isNew), comparisonWidth(column, popLabel))}`;
+    }
+    if (showProjection) {
+      line += formatProjectionCells(row.projection, showTargets);
+    }
+    if (showTargets) {
+      line += formatTargetCells(row);
+    }
+    return line.trimEnd() + '\n';
+  };
+
+  // Debug row: only the ratio columns, from the old revenue-weighted calculation
+  const formatWeightedRow = (row: ReportTotals): string => {
+    if (!showWeighted || !row.weighted) return '';
+    const blankLocal = showLocalCurrency ? `  ${padLeft('', 15)}` : '';
+    const line = `${padRight('  weighted', storeWidth)} ${padLeft('', 11)}${blankLocal}${weightedCells(MAIN_TABLE_COLUMNS, row.weighted)}`;
+    return line.trimEnd() + '\n';
+  };
+
+  const formatCountryRow = (country: CountryMarketingMetrics): string =>
+    formatRow(
+      `${country.shop.flag} ${country.shop.code}`,
+      country,
+      `${formatRevenue(country.revenueLocal)} ${country.shop.currency}`,
+      country.isNew
+    );
+
+  // Local column of a group: summed when every market shares a currency, otherwise mixed
+  const formatGroupRow = (group: MarketGroupMetrics): string => {
+    const currencies = new Set(group.countries.map(c => c.shop.currency));
+    const local = currencies.size === 1
+      ? `${formatRevenue(group.countries.reduce((sum, c) => sum + c.revenueLocal, 0))} ${[...currencies][0]}`
+      : '—';
+    return formatRow(groupLabel(group), group.totals, local, group.isNew)
+      + formatWeightedRow(group.totals);
+  };
 
   let table = header + '\n';
   table += separator(header) + '\n';
+  table += groupedRows(countries, groups, collapsed, formatCountryRow, formatGroupRow);
+  table += separator(header) + '\n';
 
-  for (const country of countries) {
-    const store = padRight(`${country.shop.flag} ${country.shop.code}`, 10);
-    const revenue = padLeft(formatRevenue(country.revenue), 11);
-    const spend = padLeft(formatRevenue(country.spend), 9);
-    const roas = padLeft(country.roas.toFixed(1), 7);
-    const ncRoas = padLeft(country.ncRoas.toFixed(1), 9);
-    const ncPercent = padLeft(formatPercent(country.ncPercent), 7);
-    const orders = padLeft(country.orders.toString(), 7);
-    const aov = padLeft(formatAOV(country.aov), 9);
-
-    let row = `${store} ${revenue}  ${spend}  ${roas}  ${ncRoas}  ${ncPercent}  ${orders}  ${aov}`;
-    if (showYoY) {
-      const vsLY = padLeft(formatYoY(country.revenue, country.revenueYoY), 9);
-      row += `  ${vsLY}`;
-    }
+  // TOTAL row
+  table += formatRow('TOTAL', totals, '—'); // Local: mixed currencies
+  table += formatWeightedRow(totals);
 
-    table += row + '\n';
-  }
+  return table;
+}
 
-  table += separator(header) + '\n';
+// EOM Rev | ± | EOM Spend | EOM MER cells (blank for rows without a projection; padded when more columns follow)
+function formatProjectionCells(projection: Projection | undefined, padded: boolean = false): string {
+  if (!projection) return padded ? `  ${padLeft('', 11)}  ${padLeft('', 5)}  ${padLeft('', 10)}  ${padLeft('', 7)}` : '';
+  const range = projection.revenue > 0 ? `±${Math.round((projection.revenueMargin / projection.revenue) * 100)}%` : '—';
+  const mer = projection.spend > 0 ? projection.revenue / projection.spend : null;
+  return `  ${padLeft(formatMetric('revenue', projection.revenue), 11)}  ${padLeft(range, 5)}`
+    + `  ${padLeft(formatMetric('spend', projection.spend), 10)}  ${padLeft(formatMetric('mer', mer), 7)}`;
+}
 
-  // TOTAL row
-  const totalStore = padRight('TOTAL', 10);
-  const totalRevenue = padLeft(formatRevenue(totals.revenue), 11);
-  const totalSpend = padLeft(formatRevenue(totals.spend), 9);
-  const totalRoas = padLeft(totals.roas.toFixed(1), 7);
-  const totalNcRoas = padLeft(totals.ncRoas.toFixed(1), 9);
-  const totalNcPercent = padLeft(formatPercent(totals.ncPercent), 7);
-  const totalOrders = padLeft(totals.orders.toString(), 7);
-  const totalAov = padLeft(formatAOV(totals.aov), 9);
-
-  let totalRow = `${totalStore} ${totalRevenue}  ${totalSpend}  ${totalRoas}  ${totalNcRoas}  ${totalNcPercent}  ${totalOrders}  ${totalAov}`;
-  if (showYoY) {
-    const totalVsLY = padLeft(formatYoY(totals.revenue, totals.vsLY), 9);
-    totalRow += `  ${totalVsLY}`;
-  }
+// "+6%" / "-12%" vs target, '—' without one
+function formatVariance(variance: number | null): string {
+  if (variance === null) return '—';
+  const rounded = Math.round(variance) || 0; // No "-0%"
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+}
 
-  table += totalRow + '\n';
+// Budget | MER Δ | aMER Δ | CAC Δ | status cells (blank for rows without targets)
+function formatTargetCells(row: { spend: number; mer: number; amer: number; blendedCac: number | null; target?: PeriodTarget }): string {
+  if (!row.target) return '';
+  const comparison = compareWithTarget(row, row.target);
+  const budget = comparison.budgetUsed === null ? '—' : `${Math.round(comparison.budgetUsed)}%`;
+  return `  ${padLeft(budget, 6)}  ${padLeft(formatVariance(comparison.merVariance), 6)}`
+    + `  ${padLeft(formatVariance(comparison.amerVariance), 6)}  ${padLeft(formatVariance(comparison.cacVariance), 6)}`
+    + `  ${comparison.status ? TARGET_STATUS_MARKERS[comparison.status] : ''}`;
+}
+
+// =============================================================================
+// NEW VS RETURNING TABLE FORMATTING
+// =============================================================================
+
+/**
+ * Format new vs returning table: Store | NC Orders | CAC | YoY | Returning | Ret% | YoY
+ * CAC YoY is the % change in blended CAC; Ret% YoY the change in percentage points.
+ * Rows follow the main table (market groups, subtotals, TOTAL).
+ * @param countries Array of country metrics (sorted by revenue DESC)
+ * @param totals Total metrics across all countries
+ * @param groups Market groups to subtotal (omit or empty for a flat list)
+ * @param collapsed Show group rows only
+ * @returns Formatted table string
+ */
+export function formatAcquisitionTable(
+  countries: CountryMarketingMetrics[],
+  totals: ReportTotals,
+  groups: MarketGroupMetrics[] = [],
+  collapsed: boolean = false
+): string {
+  const groupLabel = (group: MarketGroupMetrics) => `Σ ${group.name}`;
+  const storeWidth = Math.max(10, ...groups.map(g => displayWidth(groupLabel(g))));
+
+  const header = `${padRight('Store', storeWidth)} ${padLeft('NC Orders', 10)}  ${padLeft(METRICS.blendedCac.label, 7)}  ${padLeft('YoY', 8)}  ${padLeft(METRICS.returningRevenue.label, 11)}  ${padLeft(METRICS.returningShare.label, 6)}  ${padLeft('YoY', 8)}`;
+
+  const formatRow = (
+    label: string,
+    row: Pick<ReportTotals, 'newCustomerOrders' | 'blendedCac' | 'returningRevenue' | 'returningShare' | 'previous'>,
+    isNew: boolean = false
+  ): string => {
+    const previousCac = row.previous ? calculateMetric('blendedCac', row.previous) : null;
+    const previousShare = row.previous ? calculateMetric('returningShare', row.previous) : null;
+    const cacYoY = isNew ? 'NEW' : row.blendedCac === null ? '—' : formatYoY(row.blendedCac, previousCac);
+    const shareYoY = isNew ? 'NEW' : formatPointChange(row.returningShare, previousShare);
+
+    return `${padRight(label, storeWidth)} ${padLeft(formatMetric('orders', row.newCustomerOrders), 10)}`
+      + `  ${padLeft(formatMetric('blendedCac', row.blendedCac), 7)}  ${padLeft(cacYoY, 8)}`
+      + `  ${padLeft(formatMetric('returningRevenue', row.returningRevenue), 11)}`
+      + `  ${padLeft(formatMetric('returningShare', row.returningShare), 6)}  ${padLeft(shareYoY, 8)}\n`;
+  };
+
+  let table = header + '\n';
+  table += separator(header) + '\n';
+  table += groupedRows(
+    countries,
+    groups,
+    collapsed,
+    country => formatRow(`${country.shop.flag} ${country.shop.code}`, country, country.isNew),
+    group => formatRow(groupLabel(group), group.totals, group.isNew)
+  );
+  table += separator(header) + '\n';
+  table += formatRow('TOTAL', totals);
 
   return table;
 }
@@ -208,13 +442,26 @@ export function formatChannelBreakdownInline(countries: CountryMarketingMetrics[
   return output.trim();
 }
 
+// PoP columns a channel table can show: spend and channel ROAS (no revenue or NC% per channel, no channel YoY)
+const CHANNEL_COMPARISONS: Array<{ metric: ComparisonColumn['metric']; label: string; value: (channel: Pick<ChannelMetrics, 'spend' | 'channelROAS'>) => number | null }> = [
+  { metric: 'spend', label: 'Spend', value: channel => channel.spend },
+  { metric: 'mer', label: 'ROAS (ch)', value: channel => channel.channelROAS },
+];
+
 /**
  * Format detailed channel table (for weekly/monthly reports)
  * @param country Country metrics with channels
- * @param includeNcOrders Include NC Orders column (monthly only)
+ * @param includeNcOrders Include NC Orders + NC-CPA columns (weekly/monthly)
+ * @param comparisons The report's comparison columns; PoP spend and MER/ROAS become channel spend and channel ROAS columns
+ * @param popLabel Header for PoP columns ("WoW", "MoM")
  * @returns Formatted channel table
  */
-export function formatChannelTable(country: CountryMarketingMetrics, includeNcOrders: boolean = false): string {
+export function formatChannelTable(
+  country: CountryMarketingMetrics,
+  includeNcOrders: boolean = false,
+  comparisons: ComparisonColumn[] = [],
+  popLabel: string = 'PoP'
+): string {
   if (country.channels.length === 0) return '';
 
   let table = '';
@@ -223,9 +470,22 @@ export function formatChannelTable(country: CountryMarketingMetrics, includeNcOr
   const totalSpend = country.channels.reduce((sum, ch) => sum + ch.spend, 0);
 
   // Header
-  let header = `${padRight('Channel', 10)} ${padLeft('Spend', 10)}  ${padLeft('Share', 7)}  ${padLeft('ROAS (pixel)', 14)}  ${padLeft('ROAS (ch)', 11)}  ${padLeft('NC ROAS', 9)}`;
+  // Estimated final pixel ROAS + maturity next to the observed value, when the lag model has estimates
+  const showEstimates = country.channels.some(ch => ch.pixelROASFinal !== undefined);
+
+  let header = `${padRight('Channel', 10)} ${padLeft('Spend', 10)}  ${padLeft('Share', 7)}  ${padLeft('ROAS (pixel)', 14)}`;
+  if (showEstimates) {
+    header += `  ${padLeft('Est. final', 10)}  ${padLeft('Mature', 7)}`;
+  }
+  header += `  ${padLeft('ROAS (ch)', 11)}  ${padLeft('NC ROAS', 9)}`;
   if (includeNcOrders) {
-    header += `  ${padLeft('NC Orders', 10)}`;
+    header += `  ${padLeft('NC Orders', 10)}  ${padLeft(METRICS.ncCpa.label, 9)}`;
+  }
+  const popColumns = CHANNEL_COMPARISONS
+    .filter(c => comparisons.some(column => column.basis === 'pop' && column.metric === c.metric))
+    .map(c => ({ ...c, label: `${c.label} ${popLabel}` }));
+  for (const column of popColumns) {
+    header += `  ${padLeft(column.label, Math.max(9, displayWidth(column.label)))}`;
   }
 
   table += header + '\n';
@@ -240,11 +500,24 @@ export function formatChannelTable(country: CountryMarketingMetrics, includeNcOr
     const channelROAS = padLeft(formatROAS(channel.channelROAS), 11);
     const ncROAS = padLeft(formatROAS(channel.ncROAS), 9);
 
-    let row = `${name} ${spend}  ${shareFormatted}  ${pixelROAS}  ${channelROAS}  ${ncROAS}`;
+    let row = `${name} ${spend}  ${shareFormatted}  ${pixelROAS}`;
+    if (showEstimates) {
+      const maturity = channel.pixelMaturity !== undefined ? `${Math.round(channel.pixelMaturity * 100)}%` : '—';
+      row += `  ${padLeft(formatROAS(channel.pixelROASFinal ?? null), 10)}  ${padLeft(maturity, 7)}`;
+    }
+    row += `  ${channelROAS}  ${ncROAS}`;
 
     if (includeNcOrders && channel.ncOrders !== undefined) {
-      const ncOrders = padLeft(channel.ncOrders.toString(), 10);
-      row += `  ${ncOrders}`;
+      // "~" marks an estimate (no <channel>_pixel_nc_orders column)
+      const ncOrders = padLeft(`${channel.ncOrdersEstimated ? '~' : ''}${formatMetric('orders', channel.ncOrders)}`, 10);
+      const ncCpa = padLeft(formatMetric('ncCpa', channel.ncCpa), 9);
+      row += `  ${ncOrders}  ${ncCpa}`;
+    }
+
+    for (const column of popColumns) {
+      const value = column.value(channel);
+      const before = channel.previousPeriod ? column.value(channel.previousPeriod) : null;
+      row += `  ${padLeft(value === null ? '—' : formatYoY(value, before), Math.max(9, displayWidth(column.label)))}`;
     }
 
     table += row + '\n';
@@ -253,40 +526,255 @@ export function formatChannelTable(country: CountryMarketingMetrics, includeNcOr
   return table;
 }
 
+/**
+ * Format the daily settled pixel table: one row per market and channel, in channel table columns
+ * @param countries Country metrics with channels for the settled day
+ * @returns Formatted table (empty if no market has channel spend)
+ */
+export function formatSettledPixelTable(countries: CountryMarketingMetrics[]): string {
+  if (countries.every(c => c.channels.length === 0)) return '';
+
+  const channelLabel = (country: CountryMarketingMetrics, channel: string) => `${country.shop.flag} ${country.shop.code} ${channel}`;
+  const labelWidth = Math.max(16, ...countries.flatMap(c => c.channels.map(ch => displayWidth(channelLabel(c, ch.channel)))));
+
+  const header = `${padRight('Channel', labelWidth)} ${padLeft('Spend', 10)}  ${padLeft('ROAS (pixel)', 14)}  ${padLeft('NC ROAS', 9)}  ${padLeft('ROAS (ch)', 11)}  ${padLeft('Gap', 8)}`;
+  let table = header + '\n';
+  table += separator(header) + '\n';
+
+  for (const country of countries) {
+    for (const channel of country.channels) {
+      const name = padRight(channelLabel(country, channel.channel), labelWidth);
+      const spend = padLeft(formatRevenue(channel.spend), 10);
+      const pixelROAS = padLeft(formatROAS(channel.pixelROAS), 14);
+      const ncROAS = padLeft(formatROAS(channel.ncROAS), 9);
+      const channelROAS = padLeft(formatROAS(channel.channelROAS), 11);
+      // Pixel vs channel-reported ROAS (negative = the platform claims more than the pixel sees);
+      // no gap without a channel-reported ROAS to compare with
+      const gap = channel.pixelROAS === null || !channel.channelROAS ? '—' : formatChange(channel.pixelROAS, channel.channelROAS);
+      table += `${name} ${spend}  ${pixelROAS}  ${ncROAS}  ${channelROAS}  ${padLeft(gap, 8)}\n`;
+    }
+  }
+
+  return table;
+}
+
 // =============================================================================
 // TREND TABLE FORMATTING
 // =============================================================================
 
+// Columns after Revenue
+const TREND_TABLE_COLUMNS: MetricColumn[] = [
+  { metric: 'spend', width: 10 },
+  { metric: 'mer', width: 7 },
+  { metric: 'amer', width: 9 },
+  { metric: 'ncPercent', width: 7 },
+  { metric: 'blendedCac', width: 7 },
+  { metric: 'returningShare', width: 6 },
+];
+
 /**
- * Format trend table (3-week or 3-month)
+ * Format trend table (3-week or 3-month), metric columns from the metric registry
+ * Market group rows (when present) are indented under each period.
  * @param trends Array of trend data (most recent first)
  * @param type 'weekly' or 'monthly'
+ * @param showGroups Show the market group rows
+ * @param showWeighted Add the old revenue-weighted ratios under each period (debug view)
  * @returns Formatted trend table
  */
-export function formatTrendTable(trends: TrendData[], type: 'weekly' | 'monthly'): string {
+export function formatTrendTable(
+  trends: TrendData[],
+  type: 'weekly' | 'monthly',
+  showGroups: boolean = false,
+  showWeighted: boolean = false
+): string {
   if (trends.length === 0) return '';
 
+  const groupRows = (trend: TrendData) => (showGroups ? trend.groups ?? [] : []);
+  const periodWidth = Math.max(12, ...trends.flatMap(t => groupRows(t).map(g => displayWidth(g.period) + 2)));
+
   let table = '';
 
-  const header = `${padRight('', 12)} ${padLeft('Revenue', 12)}  ${padLeft('Spend', 10)}  ${padLeft('ROAS', 7)}  ${padLeft('NC ROAS', 9)}  ${padLeft('NC', 7)}  ${padLeft('YoY', 9)}`;
+  const header = `${padRight('', periodWidth)} ${padLeft(METRICS.revenue.label, 12)}${metricHeaders(TREND_TABLE_COLUMNS)}  ${padLeft('YoY', 9)}`;
   table += header + '\n';
   table += separator(header) + '\n';
 
-  for (const trend of trends) {
-    const period = padRight(trend.period, 12);
-    const revenue = padLeft(formatRevenue(trend.revenue), 12);
-    const spend = padLeft(formatRevenue(trend.spend), 10);
-    const roas = padLeft(trend.roas.toFixed(1), 7);
-    const ncRoas = padLeft(trend.ncRoas.toFixed(1), 9);
-    const ncPercent = padLeft(formatPercent(trend.ncPercent), 7);
+  const formatRow = (label: string, trend: TrendData): string => {
+    const period = padRight(label, periodWidth);
+    const revenue = padLeft(formatMetric('revenue', trend.revenue), 12);
     const vsLY = padLeft(formatYoY(trend.revenue, trend.vsLY), 9);
 
-    table += `${period} ${revenue}  ${spend}  ${roas}  ${ncRoas}  ${ncPercent}  ${vsLY}\n`;
+    return `${period} ${revenue}${metricCells(TREND_TABLE_COLUMNS, trend)}  ${vsLY}\n`;
+  };
+
+  for (const trend of trends) {
+    table += formatRow(trend.period, trend);
+    if (showWeighted && trend.weighted) {
+      table += `${padRight('  weighted', periodWidth)} ${padLeft('', 12)}${weightedCells(TREND_TABLE_COLUMNS, trend.weighted)}`.trimEnd() + '\n';
+    }
+    for (const group of groupRows(trend)) {
+      table += formatRow(`  ${group.period}`, group);
+    }
   }
 
   return table;
 }
 
+// =============================================================================
+// SEASON TABLE FORMATTING
+// =============================================================================
+
+// Column labels per previous season (last season, two seasons ago)
+const PREVIOUS_SEASON_LABELS = ['LS', '2S'];
+
+function previousSeasonLabel(index: number): string {
+  return PREVIOUS_SEASON_LABELS[index] ?? `${index + 1}S`;
+}
+
+/**
+ * Format the season-to-date table: Store | Revenue | vs LS | vs 2S | Spend | vs LS | vs 2S | MER | LS | 2S | NC% | LS | 2S
+ * Revenue and spend show the % change on each previous season at the same point; MER and NC%
+ * show the previous seasons' own figures. Rows follow the main table (market groups, subtotals, TOTAL).
+ * @param comparisons This season against each previous season, most recent first
+ * @param showGroups Subtotal market groups
+ * @param collapsed Show group rows only
+ * @returns Formatted table string
+ */
+export function formatSeasonTable(comparisons: SeasonComparison[], showGroups: boolean = true, collapsed: boolean = false): string {
+  const [first] = comparisons;
+  const groups = showGroups ? first.groups : [];
+  const groupLabel = (group: MarketGroupMetrics) => `Σ ${group.name}`;
+  const storeWidth = Math.max(10, ...groups.map(g => displayWidth(groupLabel(g))));
+  const vsHeaders = comparisons.map((_, i) => `  ${padLeft(`vs ${previousSeasonLabel(i)}`, 7)}`).join('');
+  const previousHeaders = (width: number) => comparisons.map((_, i) => `  ${padLeft(previousSeasonLabel(i), width)}`).join('');
+
+  const header = `${padRight('Store', storeWidth)} ${padLeft(METRICS.revenue.label, 11)}${vsHeaders}`
+    + `  ${padLeft(METRICS.spend.label, 10)}${vsHeaders}`
+    + `  ${padLeft(METRICS.mer.label, 5)}${previousHeaders(5)}`
+    + `  ${padLeft(METRICS.ncPercent.label, 6)}${previousHeaders(6)}`;
+
+  // `previous` and `isNew` per previous season, in the order of `comparisons`
+  const formatRow = (label: string, current: MetricInputs, previous: Array<MetricInputs | null>, isNew: boolean[]): string => {
+    const changes = (value: (row: MetricInputs) => number) =>
+      previous.map((p, i) => `  ${padLeft(formatYoY(value(current), p ? value(p) : null, isNew[i]), 7)}`).join('');
+    const figures = (id: MetricId, width: number) =>
+      previous.map(p => `  ${padLeft(formatMetric(id, p ? calculateMetric(id, p) : null), width)}`).join('');
+
+    return `${padRight(label, storeWidth)} ${padLeft(formatMetric('revenue', current.revenue), 11)}${changes(row => row.revenue)}`
+      + `  ${padLeft(formatMetric('spend', current.spend), 10)}${changes(row => row.spend)}`
+      + `  ${padLeft(formatMetric('mer', calculateMetric('mer', current)), 5)}${figures('mer', 5)}`
+      + `  ${padLeft(formatMetric('ncPercent', calculateMetric('ncPercent', current)), 6)}${figures('ncPercent', 6)}\n`;
+  };
+
+  const countryRow = (country: CountryMarketingMetrics): string => {
+    const matches = comparisons.map(c => c.countries.find(row => row.shop.code === country.shop.code));
+    return formatRow(
+      `${country.shop.flag} ${country.shop.code}`,
+      country,
+      matches.map(m => m?.previous ?? null),
+      matches.map(m => m?.isNew ?? false)
+    );
+  };
+
+  const groupRow = (group: MarketGroupMetrics): string => {
+    const matches = comparisons.map(c => c.groups.find(g => g.name === group.name));
+    return formatRow(
+      groupLabel(group),
+      group.totals,
+      matches.map(m => m?.totals.previous ?? null),
+      matches.map(m => m?.isNew ?? false)
+    );
+  };
+
+  let table = header + '\n';
+  table += separator(header) + '\n';
+  table += groupedRows(first.countries, groups, collapsed, countryRow, groupRow);
+  table += separator(header) + '\n';
+  table += formatRow('TOTAL', first.totals, comparisons.map(c => c.totals.previous), comparisons.map(() => false));
+
+  return table;
+}
+
+/**
+ * Format the cumulative pace table: Through | Revenue | vs LS | vs 2S | MER | LS | 2S
+ * One row per week of the season so far (TOTAL, cumulative from the season start).
+ * @param pace Cumulative totals, oldest first
+ * @returns Formatted table string
+ */
+export function formatSeasonPaceTable(pace: SeasonPacePoint[]): string {
+  if (pace.length === 0) return '';
+  const seasons = pace[0].previous.map((_, i) => previousSeasonLabel(i));
+
+  const header = `${padRight('Through', 8)} ${padLeft(METRICS.revenue.label, 12)}`
+    + seasons.map(label => `  ${padLeft(`vs ${label}`, 7)}`).join('')
+    + `  ${padLeft(METRICS.mer.label, 5)}`
+    + seasons.map(label => `  ${padLeft(label, 5)}`).join('');
+
+  let table = header + '\n';
+  table += separator(header) + '\n';
+
+  for (const point of pace) {
+    const through = formatShortDate(new Date(point.date + 'T00:00:00'));
+    const changes = point.previous.map(p => `  ${padLeft(formatYoY(point.current.revenue, p?.revenue ?? null), 7)}`).join('');
+    const mers = point.previous.map(p => `  ${padLeft(formatMetric('mer', p ? calculateMetric('mer', p) : null), 5)}`).join('');
+    table += `${padRight(through, 8)} ${padLeft(formatMetric('revenue', point.current.revenue), 12)}${changes}`
+      + `  ${padLeft(formatMetric('mer', calculateMetric('mer', point.current)), 5)}${mers}\n`;
+  }
+
+  return table;
+}
+
+// =============================================================================
+// ANOMALY FORMATTING
+// =============================================================================
+
+// Wording per anomaly metric ("DE Meta spend", "SE MER")
+const ANOMALY_LABELS: Record<AnomalyMetric, string> = {
+  spend: 'spend',
+  mer: METRICS.mer.label,
+  ncPercent: METRICS.ncPercent.label,
+  orders: 'orders',
+  channelROAS: 'ROAS',
+};
+
+/**
+ * Format one anomaly as a line for the "Unusual" section
+ * Example: "🇩🇪 DE Meta spend +180% vs typical Thursday (12,400 vs 4,430 EUR)"
+ * @param anomaly Detected anomaly
+ * @param weekday Weekday name of the day checked ("Thursday")
+ */
+export function formatAnomaly(anomaly: Anomaly, weekday: string): string {
+  const subject = `${anomaly.shop.flag} ${anomaly.shop.code}${anomaly.channel ? ` ${anomaly.channel}` : ''}`;
+  const format = (value: number) =>
+    anomaly.metric === 'channelROAS' ? formatROAS(value) : formatMetric(anomaly.metric, value);
+  const unit = anomaly.metric === 'spend' ? ` ${anomaly.shop.currency}` : '';
+  const change = `${anomaly.change >= 0 ? '+' : ''}${Math.round(anomaly.change)}%`;
+
+  return `${subject} ${ANOMALY_LABELS[anomaly.metric]} ${change} vs typical ${weekday} (${format(anomaly.value)} vs ${format(anomaly.baseline)}${unit})`;
+}
+
+// =============================================================================
+// TRACKING HEALTH FORMATTING
+// =============================================================================
+
+/**
+ * Format a tracking-health alert (market, channel, date and what broke)
+ * Example: "🇩🇪 DE Meta — spend stopped on Nov 20, 2025 (was 4,430 EUR/day)"
+ */
+export function formatTrackingAlert(alert: TrackingAlert): string {
+  const subject = `${alert.shop.flag} ${alert.shop.code} ${alert.channel}`;
+  const date = formatDate(new Date(alert.date + 'T00:00:00'));
+
+  switch (alert.check) {
+    case 'spend_stopped':
+      return `${subject} — spend stopped on ${date} (was ${formatRevenue(alert.baseline)} ${alert.shop.currency}/day)`;
+    case 'pixel_collapse':
+      return `${subject} — pixel revenue collapsed on ${date}: pixel ROAS ${formatROAS(alert.value)} vs ${formatROAS(alert.baseline)} the week before, `
+        + `while orders held up (${formatMetric('orders', alert.orders)} vs ${formatMetric('orders', alert.typicalOrders)}/day)`;
+    case 'revenue_divergence':
+      return `${subject} — channel-reported revenue ${alert.value.toFixed(1)}× pixel revenue on ${date} (${alert.baseline.toFixed(1)}× the week before)`;
+  }
+}
+
 // =============================================================================
 // DATE FORMATTING
 // =============================================================================
@@ -299,6 +787,25 @@ export function formatDate(date: Date): string {
   return `${month} ${day}, ${year}`;
 }
 
+// "Nov 28"
+export function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Format a fetch timestamp in Norwegian time, e.g. "Oct 19, 07:02"
+ */
+export function formatDataAsOf(date: Date, timeZone: string = 'Europe/Oslo'): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+}
+
 export function formatDateRange(startDate: Date, endDate: Date): string {
   const start = formatDate(startDate);
   const end = formatDate(endDate);
@@ -0,0 +1,81 @@
+import { Shop } from './shops';
+import { MarketingDailyMetrics } from './sheets';
+import { ShopSyncStatus, DateRange } from './types';
+import { shiftDate } from './triplewhale';
+
+// A shop whose latest row is older than this (relative to the report's end date) is
+// treated as dormant — not synced on purpose — rather than as a failed overnight sync
+const DORMANT_AFTER_DAYS = 35;
+
+function daysBetween(from: string, to: string): number {
+  const fromDate = new Date(from + 'T00:00:00');
+  const toDate = new Date(to + 'T00:00:00');
+  return Math.round((toDate.getTime() - fromDate.getTime()) / 86400000);
+}
+
+/**
+ * Get the latest date with a row in each shop tab
+ * @param allData Map of shop code to daily metrics
+ * @returns Map of shop code to latest date (null if the tab is empty)
+ */
+export function getLatestDates(allData: Map<string, MarketingDailyMetrics[]>): Map<string, string | null> {
+  const latest = new Map<string, string | null>();
+  for (const [shopCode, data] of allData) {
+    let last: string | null = null;
+    for (const day of data) {
+      if (last === null || day.date > last) last = day.date;
+    }
+    latest.set(shopCode, last);
+  }
+  return latest;
+}
+
+/**
+ * Find shops whose sheet tab hasn't been synced through the end of the report period
+ * Dormant shops (empty tab or no rows in the last 35 days) are skipped — they already
+ * show up in the "No spend" warning. Paused shops are skipped too.
+ * @param shops Shop registry
+ * @param allData Map of shop code to daily metrics
+ * @param endDate Last day the report needs (YYYY-MM-DD)
+ * @returns Shops that are behind, with their latest date
+ */
+export function getUnsyncedShops(
+  shops: Shop[],
+  allData: Map<string, MarketingDailyMetrics[]>,
+  endDate: string
+): ShopSyncStatus[] {
+  const latestDates = getLatestDates(allData);
+  const unsynced: ShopSyncStatus[] = [];
+
+  for (const shop of shops) {
+    if (!shop.active) continue;
+    const lastDate = latestDates.get(shop.code) ?? null;
+    if (lastDate === null) continue;
+    if (lastDate >= endDate) continue;
+    if (daysBetween(lastDate, endDate) > DORMANT_AFTER_DAYS) continue;
+
+    unsynced.push({ shopCode: shop.code, lastDate });
+  }
+
+  return unsynced;
+}
+
+/**
+ * Rows needed to tell a lagging sync from a dormant shop (range reads must include this)
+ * @param endDate Last day the report needs (YYYY-MM-DD)
+ */
+export function getFreshnessWindow(endDate: string): DateRange {
+  return { start: shiftDate(endDate, -DORMANT_AFTER_DAYS), end: endDate };
+}
+
+/**
+ * Copy of the data map without the given shops (so they aren't reported as zeros)
+ */
+export function withoutShops(
+  allData: Map<string, MarketingDailyMetrics[]>,
+  shopCodes: string[]
+): Map<string, MarketingDailyMetrics[]> {
+  const filtered = new Map(allData);
+  for (const code of shopCodes) filtered.delete(code);
+  return filtered;
+}
@@ -0,0 +1,188 @@
+import { Shop, SHOPS } from './shops';
+import { MarketingDailyMetrics } from './sheets';
+import { FxRateTable, ConversionOptions } from './types';
+
+// =============================================================================
+// FX RATE TABLE
+// =============================================================================
+
+// Sheet tab / fixture file with dated rates: date column + one column per currency
+// (NOK per unit), e.g. "date,SEK,DKK,EUR,GBP,USD". Days without a row (weekends,
+// holidays) use the latest earlier rate.
+export const FX_TAB = 'FX';
+
+// Format date as YYYY-MM-DD using local timezone (not UTC)
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse the FX tab (header row + daily rows) into a rate table
+ * Rows with an unparseable date and empty or non-positive rates are skipped.
+ * @param rows Header row + value rows
+ * @returns Rates per currency, sorted by date
+ */
+export function parseFxRows(rows: string[][]): FxRateTable {
+  const table: FxRateTable = {};
+  if (rows.length < 2) return table;
+
+  const headers = rows[0].map(h => h?.trim() ?? '');
+  const dateCol = headers.findIndex(h => h.toLowerCase() === 'date');
+  if (dateCol === -1) {
+    console.error(`FX tab has no date column. Headers: ${headers.join(', ')}`);
+    return table;
+  }
+
+  const currencyCols = headers
+    .map((h, col) => ({ currency: h.toUpperCase(), col }))
+    .filter(c => c.col !== dateCol && /^[A-Z]{3}$/.test(c.currency));
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row?.[dateCol]) continue;
+
+    const rowDate = new Date(row[dateCol] + 'T00:00:00');
+    if (isNaN(rowDate.getTime())) continue;
+    const date = formatLocalDate(rowDate);
+
+    for (const { currency, col } of currencyCols) {
+      const rate = parseFloat(row[col] ?? '');
+      if (!(rate > 0)) continue;
+      (table[currency] ??= []).push({ date, rateToNOK: rate });
+    }
+  }
+
+  for (const rates of Object.values(table)) {
+    rates.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return table;
+}
+
+// =============================================================================
+// RATE LOOKUP
+// =============================================================================
+
+/**
+ * Currencies reports can be shown in: NOK + every shop currency in the registry
+ * @param shops Shop registry (see loadShopRegistry)
+ */
+export function getSupportedCurrencies(shops: Shop[]): string[] {
+  return [...new Set(['NOK', ...shops.map(s => s.currency)])];
+}
+
+// "eur" → "EUR"; null if no shop in the registry uses it
+export function normalizeCurrency(value: string | null | undefined, shops: Shop[]): string | null {
+  const currency = value?.trim().toUpperCase();
+  return currency && getSupportedCurrencies(shops).includes(currency) ? currency : null;
+}
+
+// Static rate from the registry (first shop using the currency); 1 for NOK
+function getStaticRate(currency: string, shops: Shop[]): number {
+  const shop = shops.find(s => s.currency === currency);
+  if (!shop && currency !== 'NOK') console.warn(`No shop uses ${currency} — no static rate, treating it as NOK`);
+  return shop?.exchangeRateToNOK ?? 1;
+}
+
+/**
+ * NOK per unit of a currency on a given day
+ * Uses the latest rate on or before the date; falls back to the static rate of the registry's
+ * shop in that currency when the table has nothing that early (or no rates for the currency at all).
+ * @param rates Dated rate table (optional)
+ * @param currency Currency code (e.g. "EUR")
+ * @param date Day to convert (YYYY-MM-DD)
+ * @param shops Shop registry the static rates come from (see loadShopRegistry)
+ */
+export function getRateToNOK(rates: FxRateTable | undefined, currency: string, date: string, shops: Shop[]): number {
+  if (currency === 'NOK') return 1;
+
+  const series = rates?.[currency];
+  if (!series || series.length === 0 || series[0].date > date) return getStaticRate(currency, shops);
+
+  // Binary search: last entry with entry.date <= date
+  let lo = 0;
+  let hi = series.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (series[mid].date <= date) lo = mid;
+    else hi = mid - 1;
+  }
+  return series[lo].rateToNOK;
+}
+
+/**
+ * Units of `to` per unit of `from` on a given day (cross rate via NOK)
+ */
+export function getConversionRate(rates: FxRateTable | undefined, from: string, to: string, date: string, shops: Shop[]): number {
+  if (from === to) return 1;
+  return getRateToNOK(rates, from, date, shops) / getRateToNOK(rates, to, date, shops);
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Convert daily rows to another currency (revenue, spend and channel amounts)
+ * @param rows Daily metrics in the shop's currency
+ * @param rateFor Target units per local unit for each day
+ * @returns Converted copies of the rows (order and NC counts unchanged)
+ */
+export function convertAmounts(
+  rows: MarketingDailyMetrics[],
+  rateFor: (date: string) => number
+): MarketingDailyMetrics[] {
+  return rows.map(day => {
+    const rate = rateFor(day.date);
+    const channels: MarketingDailyMetrics['channels'] = {};
+    for (const [channel, values] of Object.entries(day.channels)) {
+      channels[channel] = {
+        ...values,
+        spend: values.spend * rate,
+        pixelRevenue: values.pixelRevenue * rate,
+        channelRevenue: values.channelRevenue * rate,
+        pixelNcRevenue: values.pixelNcRevenue * rate,
+      };
+    }
+    return {
+      ...day,
+      orderRevenue: day.orderRevenue * rate,
+      spend: day.spend * rate,
+      channels,
+    };
+  });
+}
+
+/**
+ * Convert a period and its YoY period to the reporting currency
+ * 'actual' converts every day at its own rate; 'constant' converts the YoY days at the
+ * current period's average rate, so YoY shows growth without currency moves.
+ * @param shop Shop configuration
+ * @param currentData Daily metrics for the current period (local currency)
+ * @param yoyData Daily metrics for the YoY period (local currency)
+ * @param fx Rate table, reporting currency (default NOK) + YoY mode
+ */
+export function convertPeriods(
+  shop: Shop,
+  currentData: MarketingDailyMetrics[],
+  yoyData: MarketingDailyMetrics[],
+  fx: ConversionOptions
+): { current: MarketingDailyMetrics[]; yoy: MarketingDailyMetrics[] } {
+  const currency = fx.currency ?? 'NOK';
+  // The shop's own static rate first, then the registry's for the reporting currency
+  const shops = [shop, ...(fx.shops ?? SHOPS)];
+  const dailyRate = (date: string) => getConversionRate(fx.rates, shop.currency, currency, date, shops);
+  const current = convertAmounts(currentData, dailyRate);
+
+  if (fx.yoyMode !== 'constant') {
+    return { current, yoy: convertAmounts(yoyData, dailyRate) };
+  }
+
+  const constantRate = currentData.length > 0
+    ? currentData.reduce((sum, d) => sum + dailyRate(d.date), 0) / currentData.length
+    : getStaticRate(shop.currency, shops) / getStaticRate(currency, shops);
+  return { current, yoy: convertAmounts(yoyData, () => constantRate) };
+}
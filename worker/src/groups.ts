@@ -0,0 +1,46 @@
+import { Shop } from './shops';
+import { CountryMarketingMetrics, MarketGroupMode } from './types';
+
+// =============================================================================
+// MARKET GROUPS
+// =============================================================================
+
+// Group for shops without a `group` in the registry
+export const UNGROUPED = 'Other';
+
+export const MARKET_GROUP_MODES: MarketGroupMode[] = ['off', 'subtotals', 'collapsed'];
+
+/**
+ * Market group of each shop, keyed by shop code
+ * @param shops Shop registry
+ */
+export function getShopGroups(shops: Shop[]): Map<string, string> {
+  return new Map(shops.map(shop => [shop.code, shop.group ?? UNGROUPED]));
+}
+
+/**
+ * Split country metrics by market group
+ * Countries keep their order within a group; groups are sorted by revenue DESC.
+ * @param countries Country metrics (sorted by revenue DESC)
+ * @param shops Shop registry (defines the groups)
+ * @returns Group name and its countries (only groups with at least one country)
+ */
+export function groupCountries(
+  countries: CountryMarketingMetrics[],
+  shops: Shop[]
+): Array<{ name: string; countries: CountryMarketingMetrics[] }> {
+  const shopGroups = getShopGroups(shops);
+  const groups = new Map<string, CountryMarketingMetrics[]>();
+
+  for (const country of countries) {
+    const name = shopGroups.get(country.shop.code) ?? UNGROUPED;
+    const members = groups.get(name) ?? [];
+    members.push(country);
+    groups.set(name, members);
+  }
+
+  const revenue = (members: CountryMarketingMetrics[]) => members.reduce((sum, c) => sum + c.revenue, 0);
+  return [...groups.entries()]
+    .map(([name, members]) => ({ name, countries: members }))
+    .sort((a, b) => revenue(b.countries) - revenue(a.countries));
+}
@@ -0,0 +1,175 @@
+import { Shop } from './shops';
+import { MarketingDailyMetrics } from './sheets';
+import { getChannelName } from './channels';
+import { shiftDate } from './triplewhale';
+import { getCompletionFactor, PIXEL_SETTLED_AGE } from './pixellag';
+import { ChannelTotals, DateRange, PixelLagModel, TrackingAlert } from './types';
+
+// =============================================================================
+// THRESHOLDS
+// =============================================================================
+
+// Days checked, ending yesterday (3 covers the weekend on Mondays)
+const LOOKBACK_DAYS = 3;
+
+// Each checked day is compared with the week before it
+const BASELINE_DAYS = 7;
+
+// "Recent activity": spend on at least this many of the baseline days
+const MIN_ACTIVE_DAYS = 5;
+
+// Pixel ROAS below this share of its usual level counts as collapsed...
+const PIXEL_COLLAPSE_RATIO = 0.2;
+// ...as long as the market still takes at least this share of its usual orders
+const MIN_ORDERS_RATIO = 0.5;
+
+// Channel-reported ÷ pixel revenue moving this many times away from its usual ratio (either way)
+const DIVERGENCE_FACTOR = 2;
+
+/**
+ * Rows the health check reads (checked days plus their baselines)
+ * @param endDate Last day checked (YYYY-MM-DD, usually yesterday)
+ */
+export function getHealthCheckWindow(endDate: string): DateRange {
+  return { start: shiftDate(endDate, -(LOOKBACK_DAYS - 1 + BASELINE_DAYS)), end: endDate };
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+function sum(rows: Array<ChannelTotals | undefined>, field: 'spend' | 'pixelRevenue' | 'channelRevenue'): number {
+  return rows.reduce((total, row) => total + (row?.[field] ?? 0), 0);
+}
+
+/**
+ * Check a shop's channels for broken tracking on one day
+ * @param shop Shop configuration
+ * @param day The day's row
+ * @param baseline Rows for the BASELINE_DAYS days before it (missing days left out)
+ * @param previous Row for the day before (to tell when spend stopped)
+ * @param completion Share of a channel's final pixel revenue the day already shows, or null when
+ *   the day is too recent to compare (see getPixelCompletion)
+ */
+function checkDay(
+  shop: Shop,
+  day: MarketingDailyMetrics,
+  baseline: MarketingDailyMetrics[],
+  previous: MarketingDailyMetrics | undefined,
+  completion: (channel: string) => number | null
+): TrackingAlert[] {
+  const alerts: TrackingAlert[] = [];
+  const typicalOrders = baseline.reduce((total, row) => total + row.orders, 0) / Math.max(1, baseline.length);
+  const channels = new Set([...Object.keys(day.channels), ...baseline.flatMap(row => Object.keys(row.channels))]);
+
+  for (const channel of channels) {
+    const today = day.channels[channel];
+    const before = baseline.map(row => row.channels[channel]);
+    const activeDays = before.filter(row => row && row.spend > 0).length;
+    const alert = { shop, channel: getChannelName(channel), date: day.date };
+
+    // Spend went to zero after a week of activity (only the day it stopped)
+    if ((today?.spend ?? 0) <= 0) {
+      if ((previous?.channels[channel]?.spend ?? 0) > 0 && activeDays >= MIN_ACTIVE_DAYS) {
+        alerts.push({ ...alert, check: 'spend_stopped', value: 0, baseline: sum(before, 'spend') / baseline.length });
+      }
+      continue;
+    }
+
+    const baselineSpend = sum(before, 'spend');
+    const baselinePixel = sum(before, 'pixelRevenue');
+    if (baselineSpend <= 0 || baselinePixel <= 0) continue;
+
+    // Recent days are compared at their estimated final pixel revenue (late conversions still coming in)
+    const factor = completion(channel);
+    if (factor === null) continue;
+    const pixelRevenue = today.pixelRevenue / factor;
+
+    // Pixel revenue collapsed while the market keeps taking orders
+    const pixelROAS = pixelRevenue / today.spend;
+    const typicalPixelROAS = baselinePixel / baselineSpend;
+    if (pixelROAS < typicalPixelROAS * PIXEL_COLLAPSE_RATIO && day.orders > 0 && day.orders >= typicalOrders * MIN_ORDERS_RATIO) {
+      alerts.push({
+        ...alert,
+        check: 'pixel_collapse',
+        value: pixelROAS,
+        baseline: typicalPixelROAS,
+        orders: day.orders,
+        typicalOrders,
+      });
+      continue;
+    }
+
+    // Channel-reported revenue drifting away from pixel revenue
+    const baselineChannel = sum(before, 'channelRevenue');
+    if (pixelRevenue <= 0 || baselineChannel <= 0) continue;
+    const ratio = today.channelRevenue / pixelRevenue;
+    const typicalRatio = baselineChannel / baselinePixel;
+    if (ratio >= typicalRatio * DIVERGENCE_FACTOR || ratio <= typicalRatio / DIVERGENCE_FACTOR) {
+      alerts.push({ ...alert, check: 'revenue_divergence', value: ratio, baseline: typicalRatio });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * How complete a checked day's pixel revenue is, per channel
+ * Days younger than PIXEL_SETTLED_AGE use the lag model's completion factor and skip the pixel
+ * checks without one; older days count as complete.
+ * @param age Days since the day (1 = yesterday)
+ * @param pixelLag Lag model from stored snapshots (none without KV)
+ */
+function getPixelCompletion(age: number, pixelLag: PixelLagModel | undefined): (channel: string) => number | null {
+  return channel => {
+    const factor = pixelLag ? getCompletionFactor(pixelLag, channel, age) : null;
+    if (factor !== null) return factor;
+    return age >= PIXEL_SETTLED_AGE ? 1 : null;
+  };
+}
+
+/**
+ * Find broken tracking in the last few days: channels whose spend stopped after recent activity,
+ * pixel revenue collapsing while orders continue, and channel-reported revenue diverging from pixel
+ * revenue. Only the first day of each problem in the window is returned per market and channel.
+ * Pixel checks on days whose pixel revenue is still coming in use getPixelCompletion.
+ * @param shops Shop registry (paused shops are skipped)
+ * @param allData Map of shop code to daily metrics (must cover getHealthCheckWindow)
+ * @param endDate Last day checked (YYYY-MM-DD, usually yesterday)
+ * @param pixelLag Lag model from stored snapshots, to check recent days' pixel revenue
+ * @returns Alerts, oldest first
+ */
+export function checkTrackingHealth(
+  shops: Shop[],
+  allData: Map<string, MarketingDailyMetrics[]>,
+  endDate: string,
+  pixelLag?: PixelLagModel
+): TrackingAlert[] {
+  const alerts: TrackingAlert[] = [];
+
+  for (const shop of shops) {
+    if (!shop.active) continue;
+    const rows = new Map((allData.get(shop.code) ?? []).map(row => [row.date, row]));
+    const seen = new Set<string>();
+
+    for (let offset = LOOKBACK_DAYS - 1; offset >= 0; offset--) {
+      const date = shiftDate(endDate, -offset);
+      const day = rows.get(date);
+      if (!day) continue; // Not synced (yet)
+
+      const baseline = Array.from({ length: BASELINE_DAYS }, (_, i) => rows.get(shiftDate(date, -(i + 1))))
+        .filter((row): row is MarketingDailyMetrics => row !== undefined);
+      if (baseline.length === 0) continue;
+
+      const completion = getPixelCompletion(offset + 1, pixelLag);
+      for (const alert of checkDay(shop, day, baseline, rows.get(shiftDate(date, -1)), completion)) {
+        const key = `${alert.check}:${alert.channel}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        alerts.push(alert);
+      }
+    }
+  }
+
+  return alerts.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -1,40 +1,247 @@
-import { SHOPS } from './shops';
 import {
   getYesterdayPeriod,
   getWeekPeriod,
   getWeekNumber,
-  getSameDayLastYear,
-  getSameWeekLastYear,
+  getYoYDay,
+  getYoYWeek,
   getPreviousMonthPeriod,
-  getSameMonthLastYear,
+  getYoYMonth,
   getMonthPeriod,
   getWTDPeriod,
   getMTDPeriod,
+  getSeasonPeriod,
+  getSeasonToDatePeriod,
+  shiftDate,
+  YOY_ALIGNMENTS,
 } from './triplewhale';
-import { sendBlockMessages } from './slack';
+import { sendBlockMessage, sendBlockMessages } from './slack';
 import { loadAllMarketingData, getAllCountryMetrics, getCountriesWithoutSpend } from './data';
-import { calculateWeightedTotals, isPixelDataIncomplete } from './metrics';
-import { generateDailyReport, generateWeeklyReport, generateMonthlyReport } from './report';
-import { Env, SlackBlock, DailyReportData, WeeklyReportData, MonthlyReportData, TrendData, CountryMarketingMetrics } from './types';
-import { ServiceAccountCredentials } from './sheets';
-import { getMonthName } from './formatting';
+import { createDataSource, MarketingDataSet, LoadOptions } from './datasource';
+import { MarketingDailyMetrics } from './sheets';
+import { calculatePooledTotals, calculateWeightedTotals, sumMetricInputs, isPixelDataIncomplete } from './metrics';
+import { buildDataQualityReport, getDataQualityIssues } from './validation';
+import { getUnsyncedShops, getFreshnessWindow, withoutShops } from './freshness';
+import { detectAnomalies, getAnomalyBaselineWindow } from './anomalies';
+import { checkTrackingHealth, getHealthCheckWindow } from './health';
+import { applyProjection, getForecastWindows, getMonthBounds, projectMonthEnd, sumProjections } from './forecast';
+import { getPeriodTarget, sumTargets } from './targets';
+import { getEventAlignment, getEventYoYPeriod, getMissingShippingCutoffs, isPeakSeason } from './events';
+import {
+  buildPixelLagModel,
+  getDataDate,
+  getPixelMaturity,
+  getPixelSnapshotWindow,
+  loadPixelSnapshots,
+  PIXEL_SETTLED_AGE,
+  savePixelSnapshot,
+  takePixelSnapshot,
+} from './pixellag';
+import { getChannelName } from './channels';
+import { getEnvString, getReportOptions, getSlackDestinations, getTestDestination, SlackDestination } from './destinations';
+import { getSupportedCurrencies, normalizeCurrency } from './fx';
+import { loadShopRegistry, SHOPS, Shop } from './shops';
+import { groupCountries } from './groups';
+import { generateDailyReport, generateWeeklyReport, generateMonthlyReport, generateSeasonReport, generateTrackingHealthAlert } from './report';
+import {
+  Env,
+  SlackBlock,
+  DailyReportData,
+  WeeklyReportData,
+  MonthlyReportData,
+  SeasonReportData,
+  SeasonComparison,
+  TrendData,
+  TrackingAlert,
+  CountryMarketingMetrics,
+  ShopSyncStatus,
+  DateRange,
+  ConversionOptions,
+  ReportOptions,
+  ReportTotals,
+  MarketGroupMetrics,
+  PacingData,
+  Projection,
+  PeriodTarget,
+  MarketTarget,
+  EventAlignment,
+  PixelLagModel,
+} from './types';
+import { getMonthName, formatTrackingAlert } from './formatting';
 import { handleMCPRequest, handleMCPSSE } from './mcp/server';
 
-// Parse Google credentials from environment
-function getGoogleCredentials(env: Env): ServiceAccountCredentials {
-  const creds = JSON.parse(env.GOOGLE_SERVICE_ACCOUNT);
-  return {
-    client_email: creds.client_email,
-    private_key: creds.private_key,
-  };
-}
-
 // Calculate total previous year revenue from countries (for YoY on TOTAL row)
 function getTotalPrevYearRevenue(countries: CountryMarketingMetrics[]): number | null {
   const total = countries.reduce((sum, c) => sum + (c.revenueYoY ?? 0), 0);
   return total > 0 ? total : null;
 }
 
+// Totals row for a set of countries (pooled ratios + summed YoY figures; old weighted ratios for the debug view)
+function getTotals(countries: CountryMarketingMetrics[]): ReportTotals {
+  const pooled = calculatePooledTotals(countries);
+  const weighted = calculateWeightedTotals(countries);
+  const previous = countries.flatMap(c => (c.previous ? [c.previous] : []));
+  const previousPeriod = countries.flatMap(c => (c.previousPeriod ? [c.previousPeriod] : []));
+  return {
+    ...pooled,
+    vsLY: getTotalPrevYearRevenue(countries),
+    previous: previous.length > 0 ? sumMetricInputs(previous) : null,
+    previousPeriod: previousPeriod.length > 0 ? sumMetricInputs(previousPeriod) : null,
+    projection: sumProjections(countries.map(c => c.projection)),
+    target: sumTargets(countries.map(c => c.target)),
+    weighted: {
+      mer: weighted.weightedMER,
+      amer: weighted.weightedAMER,
+      ncPercent: weighted.weightedNCPercent,
+      aov: weighted.weightedAOV,
+    },
+  };
+}
+
+// Subtotals per market group (same aggregation as the TOTAL row)
+function getGroups(countries: CountryMarketingMetrics[], shops: Shop[]): MarketGroupMetrics[] {
+  return groupCountries(countries, shops).map(group => ({
+    name: group.name,
+    countries: group.countries,
+    totals: getTotals(group.countries),
+    isNew: group.countries.every(c => c.isNew),
+  }));
+}
+
+// Trend row for one period, with a row per market group
+function getTrendData(period: string, countries: CountryMarketingMetrics[], shops: Shop[]): TrendData {
+  const toTrend = (label: string, totals: ReportTotals): TrendData => ({
+    period: label,
+    revenue: totals.revenue,
+    spend: totals.spend,
+    mer: totals.mer,
+    amer: totals.amer,
+    ncPercent: totals.ncPercent,
+    blendedCac: totals.blendedCac,
+    returningShare: totals.returningShare,
+    vsLY: totals.vsLY,
+    weighted: totals.weighted,
+  });
+
+  return {
+    ...toTrend(period, getTotals(countries)),
+    groups: getGroups(countries, shops).map(group => toTrend(group.name, group.totals)),
+  };
+}
+
+// Figures for a period on their own (no YoY: the comparison period is the period itself)
+function getPeriodMetrics(
+  shops: Shop[],
+  allData: Map<string, MarketingDailyMetrics[]>,
+  period: DateRange,
+  includeNcOrders: boolean,
+  conversion: ConversionOptions
+): CountryMarketingMetrics[] {
+  return getAllCountryMetrics(shops, allData, period.start, period.end, period.start, period.end, includeNcOrders, conversion);
+}
+
+// The period before's figures (previous day, week or month) on each market and its channels, for PoP columns
+function withPreviousPeriod(countries: CountryMarketingMetrics[], previous: CountryMarketingMetrics[]): CountryMarketingMetrics[] {
+  return countries.map(country => {
+    const before = previous.find(c => c.shop.code === country.shop.code);
+    return {
+      ...country,
+      previousPeriod: before
+        ? { revenue: before.revenue, spend: before.spend, orders: before.orders, newCustomerOrders: before.newCustomerOrders, ncRevenue: before.ncRevenue }
+        : null,
+      channels: country.channels.map(channel => {
+        const match = before?.channels.find(c => c.channel === channel.channel);
+        return {
+          ...channel,
+          previousPeriod: match
+            ? { spend: match.spend, pixelROAS: match.pixelROAS, channelROAS: match.channelROAS, ncROAS: match.ncROAS }
+            : null,
+        };
+      }),
+    };
+  });
+}
+
+// Estimated final pixel ROAS on each channel whose pixel revenue the lag model can scale up
+function withPixelMaturity(
+  countries: CountryMarketingMetrics[],
+  allData: Map<string, MarketingDailyMetrics[]>,
+  period: DateRange,
+  model: PixelLagModel | undefined,
+  dataDate: string
+): CountryMarketingMetrics[] {
+  if (!model) return countries;
+  return countries.map(country => {
+    const rows = allData.get(country.shop.code) ?? [];
+    const keys = new Set(rows.flatMap(row => Object.keys(row.channels)));
+    return {
+      ...country,
+      channels: country.channels.map(channel => {
+        const key = [...keys].find(k => getChannelName(k) === channel.channel);
+        const maturity = key ? getPixelMaturity(model, rows, key, period, dataDate) : null;
+        if (maturity === null || channel.pixelROAS === null) return channel;
+        return { ...channel, pixelMaturity: maturity, pixelROASFinal: channel.pixelROAS / maturity };
+      }),
+    };
+  });
+}
+
+// Month-end projection per market, applied to its month-to-date figures (none on the last day of the month)
+function getProjections(
+  shops: Shop[],
+  allData: Map<string, MarketingDailyMetrics[]>,
+  endDate: string,
+  conversion: ConversionOptions
+): Map<string, Projection> {
+  const projections = new Map<string, Projection>();
+  const mtd = getMTDPeriod(new Date(endDate + 'T00:00:00'));
+  const monthToDate = getAllCountryMetrics(shops, allData, mtd.start, mtd.end, mtd.yoyStart, mtd.yoyEnd, false, conversion);
+
+  for (const country of monthToDate) {
+    const multiples = projectMonthEnd(allData.get(country.shop.code) ?? [], endDate);
+    if (multiples) projections.set(country.shop.code, applyProjection(multiples, country));
+  }
+  return projections;
+}
+
+// Budget + targets per market for a period (markets without targets are left out)
+function getTargets(
+  countries: CountryMarketingMetrics[],
+  targets: MarketTarget[],
+  budgetPeriod: DateRange,
+  through: string,
+  conversion: ConversionOptions
+): Map<string, PeriodTarget> {
+  const periodTargets = new Map<string, PeriodTarget>();
+  for (const country of countries) {
+    const target = getPeriodTarget(targets, country.shop, budgetPeriod, through, conversion);
+    if (target) periodTargets.set(country.shop.code, target);
+  }
+  return periodTargets;
+}
+
+// WTD/MTD table data, with month-end projections and targets on every row that has them
+function getPacingData(
+  label: string,
+  countries: CountryMarketingMetrics[],
+  shops: Shop[],
+  projections: Map<string, Projection>,
+  targets: Map<string, PeriodTarget>,
+  endDate: string
+): PacingData {
+  const projected = countries.map(c => ({
+    ...c,
+    projection: projections.get(c.shop.code),
+    target: targets.get(c.shop.code),
+  }));
+  return {
+    label,
+    countries: projected,
+    totals: getTotals(projected),
+    groups: getGroups(projected, shops),
+    ...(projections.size > 0 && { projectedTo: getMonthBounds(endDate).end }),
+  };
+}
+
 // Helper: convert blocks to plain text for preview endpoints
 function blocksToText(messages: SlackBlock[][]): string {
   return messages.map(blocks =>
@@ -49,133 +256,311 @@ function blocksToText(messages: SlackBlock[][]): string {
   ).join('\n\n---\n\n');
 }
 
+// Reference "today" for a request: ?date=YYYY-MM-DD renders the report as if it ran that day
+function getReportDate(url: URL): Date {
+  const date = url.searchParams.get('date');
+  if (date && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return new Date(date + 'T00:00:00');
+  }
+  return new Date();
+}
+
+// Hold a scheduled report back while some markets aren't synced yet (a later cron run retries)
+function shouldDelayForSync(notSynced: ShopSyncStatus[], canDelay: boolean): boolean {
+  if (notSynced.length === 0) return false;
+  const summary = notSynced.map(s => `${s.shopCode} (last ${s.lastDate})`).join(', ');
+  if (canDelay) {
+    console.log(`⏳ Data not synced yet for ${summary} — delaying report`);
+    return true;
+  }
+  console.log(`⚠️ Data not synced yet for ${summary} — posting without these markets`);
+  return false;
+}
+
 // =============================================================================
-// DAILY REPORT
+// PEAK EVENT ALIGNMENT
 // =============================================================================
 
-async function sendDailyReport(env: Env, webhookUrl?: string): Promise<void> {
-  console.log('Generating daily marketing report...');
+// Markets whose YoY for a daily/weekly period is lined up by a peak event (peak season only, unless the
+// report turned it off; without options, every market that could be — for the rows to read)
+function getEventAlignments(shops: Shop[], period: DateRange, options?: ReportOptions): EventAlignment[] {
+  if (options?.eventAlignment === false || !isPeakSeason(period.end)) return [];
+  return shops.flatMap(shop => getEventAlignment(shop, period) ?? []);
+}
 
-  const credentials = getGoogleCredentials(env);
-  const allData = await loadAllMarketingData(credentials);
+// Markets shown whose last shipping day isn't configured for this year or last (logged, and noted in the footer)
+function getMissingCutoffs(countries: CountryMarketingMetrics[], period: DateRange, options: ReportOptions): string[] {
+  if (!options.eventAlignment || !isPeakSeason(period.end)) return [];
+  const missing = getMissingShippingCutoffs(countries.map(c => c.shop), Number(period.end.slice(0, 4)));
+  if (missing.length > 0) {
+    console.warn(`No last shipping day in config/events.json for ${missing.join(', ')} (${period.end.slice(0, 4)} or the year before)`);
+  }
+  return missing;
+}
 
-  // Yesterday's data
-  const yesterdayPeriod = getYesterdayPeriod();
-  const yesterdayYoY = getSameDayLastYear(yesterdayPeriod);
+// YoY period per shop code for the event-aligned markets
+function getEventYoYPeriods(period: DateRange, alignments: EventAlignment[]): Map<string, DateRange> {
+  return new Map(alignments.map(a => [a.shopCode, getEventYoYPeriod(period, a)]));
+}
 
-  // Get countries with spend
-  const countries = getAllCountryMetrics(
-    allData,
-    yesterdayPeriod,
-    yesterdayPeriod,
-    yesterdayYoY,
-    yesterdayYoY,
-    false // No NC Orders in daily
-  );
+// =============================================================================
+// REPORT DATE RANGES (only these rows are read from the sheet)
+// =============================================================================
 
-  // Calculate weighted totals
-  const weighted = calculateWeightedTotals(countries);
+// Yesterday + WTD, both with YoY (either alignment or peak event — destinations can differ), and the anomaly baseline
+// (which covers the day before, for PoP; the freshness window covers the settled pixel day)
+function getDailyReportRanges(now: Date, shops: Shop[]): DateRange[] {
+  const yesterdayPeriod = getYesterdayPeriod(now);
+  const yesterday = new Date(yesterdayPeriod + 'T00:00:00');
+  const wtdPeriod = getWTDPeriod(yesterday);
+  const ranges: DateRange[] = [
+    getFreshnessWindow(yesterdayPeriod),
+    getAnomalyBaselineWindow(yesterdayPeriod),
+    ...getForecastWindows(yesterdayPeriod),
+    { start: wtdPeriod.start, end: wtdPeriod.end },
+  ];
+
+  for (const alignment of YOY_ALIGNMENTS) {
+    const yesterdayYoY = getYoYDay(yesterdayPeriod, alignment);
+    const wtdYoY = getWTDPeriod(yesterday, alignment);
+    ranges.push({ start: yesterdayYoY, end: yesterdayYoY }, { start: wtdYoY.yoyStart, end: wtdYoY.yoyEnd });
+  }
+  for (const period of [{ start: yesterdayPeriod, end: yesterdayPeriod }, wtdPeriod]) {
+    ranges.push(...getEventYoYPeriods(period, getEventAlignments(shops, period)).values());
+  }
+  return ranges;
+}
+
+// 3-week trend (the week before doubles as PoP) + MTD, all with YoY (either alignment or peak event)
+function getWeeklyReportRanges(now: Date, shops: Shop[]): DateRange[] {
+  const weekPeriod = getWeekPeriod(1, now);
+  const weekEnd = new Date(weekPeriod.end + 'T00:00:00');
+  const mtdPeriod = getMTDPeriod(weekEnd);
+  const ranges: DateRange[] = [
+    getFreshnessWindow(weekPeriod.end),
+    { start: mtdPeriod.start, end: mtdPeriod.end },
+    ...getForecastWindows(weekPeriod.end),
+  ];
+
+  for (const alignment of YOY_ALIGNMENTS) {
+    const mtdYoY = getMTDPeriod(weekEnd, alignment);
+    ranges.push({ start: mtdYoY.yoyStart, end: mtdYoY.yoyEnd });
+  }
+  for (let weeksAgo = 1; weeksAgo <= 3; weeksAgo++) {
+    const period = getWeekPeriod(weeksAgo, now);
+    ranges.push(period, ...YOY_ALIGNMENTS.map(alignment => getYoYWeek(period.start, alignment)));
+    ranges.push(...getEventYoYPeriods(period, getEventAlignments(shops, period)).values());
+  }
+  return ranges;
+}
+
+// 3-month trend (the month before doubles as PoP), all with YoY (either alignment)
+function getMonthlyReportRanges(now: Date): DateRange[] {
+  const monthPeriod = getPreviousMonthPeriod(now);
+  const ranges: DateRange[] = [getFreshnessWindow(monthPeriod.end)];
+
+  for (let monthsAgo = 1; monthsAgo <= 3; monthsAgo++) {
+    const month = new Date(now.getFullYear(), now.getMonth() - monthsAgo, 1);
+    const period = getMonthPeriod(month.getMonth() + 1, month.getFullYear());
+    ranges.push(period, ...YOY_ALIGNMENTS.map(alignment => getYoYMonth(period.start, alignment)));
+  }
+  return ranges;
+}
+
+// =============================================================================
+// DAILY REPORT
+// =============================================================================
+
+/**
+ * Build daily report data (yesterday relative to `now`)
+ * @param dataSet Loaded shop data
+ * @param now Day the report runs
+ * @param options FX mode etc.
+ * @param alwaysIncludeWtd Show WTD regardless of weekday (previews)
+ */
+function buildDailyReportData(
+  dataSet: MarketingDataSet,
+  now: Date,
+  options: ReportOptions,
+  alwaysIncludeWtd: boolean = false
+): DailyReportData {
+  const conversion: ConversionOptions = {
+    rates: dataSet.fxRates,
+    shops: dataSet.shops,
+    currency: options.currency,
+    yoyMode: options.yoyFxMode,
+    vatMode: options.vatMode,
+  };
+  const shops = dataSet.shops ?? SHOPS;
 
-  // Get no-spend countries
-  const noSpendCountries = getCountriesWithoutSpend(allData, yesterdayPeriod, yesterdayPeriod);
+  // Yesterday's data
+  const yesterdayPeriod = getYesterdayPeriod(now);
+  const yesterdayYoY = getYoYDay(yesterdayPeriod, options.yoyAlignment);
+
+  // Leave out markets whose tab isn't synced through the period yet (instead of showing zeros)
+  const notSynced = getUnsyncedShops(shops, dataSet.data, yesterdayPeriod);
+  const notSyncedCodes = notSynced.map(s => s.shopCode);
+  const allData = withoutShops(dataSet.data, notSyncedCodes);
+
+  // Peak season: markets near a peak event compare with the same day relative to it last year
+  const yoyEvents = getEventAlignments(shops, { start: yesterdayPeriod, end: yesterdayPeriod }, options);
+
+  // Get countries with spend, with the day before for PoP
+  const dayBefore = shiftDate(yesterdayPeriod, -1);
+  const countries = withPreviousPeriod(
+    getAllCountryMetrics(
+      shops,
+      allData,
+      yesterdayPeriod,
+      yesterdayPeriod,
+      yesterdayYoY,
+      yesterdayYoY,
+      false, // No NC Orders in daily
+      conversion,
+      getEventYoYPeriods({ start: yesterdayPeriod, end: yesterdayPeriod }, yoyEvents)
+    ),
+    getPeriodMetrics(shops, allData, { start: dayBefore, end: dayBefore }, false, conversion)
+  );
 
   const reportData: DailyReportData = {
     date: new Date(yesterdayPeriod + 'T00:00:00'),
     countries,
-    totals: {
-      revenue: weighted.totalRevenue,
-      spend: weighted.totalSpend,
-      roas: weighted.weightedROAS,
-      ncRoas: weighted.weightedNCROAS,
-      ncPercent: weighted.weightedNCPercent,
-      orders: weighted.totalOrders,
-      aov: weighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(countries),
-    },
-    noSpendCountries,
+    totals: getTotals(countries),
+    groups: getGroups(countries, shops),
+    noSpendCountries: getCountriesWithoutSpend(shops, allData, yesterdayPeriod, yesterdayPeriod).filter(c => !notSyncedCodes.includes(c)),
+    notSynced,
+    anomalies: detectAnomalies(shops, allData, yesterdayPeriod),
+    currency: options.currency,
+    showLocalCurrency: options.showLocalCurrency,
+    yoyFxMode: options.yoyFxMode,
+    yoyAlignment: options.yoyAlignment,
+    yoyEvents: yoyEvents.filter(e => countries.some(c => c.shop.code === e.shopCode)),
+    missingShippingCutoffs: getMissingCutoffs(countries, { start: yesterdayPeriod, end: yesterdayPeriod }, options),
+    vatMode: options.vatMode,
+    marketGroups: options.marketGroups,
+    showWeightedTotals: options.showWeightedTotals,
+    dataAsOf: dataSet.asOf,
+    dataQualityIssues: [],
+    comparisons: options.comparisons.daily,
   };
 
-  // WTD: only Wed-Fri (today is the day the report runs, yesterday is the data day)
-  const today = new Date();
-  const todayDayOfWeek = today.getDay(); // 0=Sun, 1=Mon, 2=Tue, 3=Wed, 4=Thu, 5=Fri
-  if (todayDayOfWeek >= 3 && todayDayOfWeek <= 5) {
+  // Pixel ROAS for the day PIXEL_SETTLED_AGE days back, once late conversions have mostly come in
+  const settledDay = shiftDate(yesterdayPeriod, -(PIXEL_SETTLED_AGE - 1));
+  const settledCountries = getPeriodMetrics(shops, allData, { start: settledDay, end: settledDay }, false, conversion)
+    .filter(c => c.channels.length > 0);
+  if (settledCountries.length > 0) reportData.settledPixel = { date: settledDay, countries: settledCountries };
+
+  // WTD: only Wed-Fri (now is the day the report runs, yesterday is the data day)
+  const todayDayOfWeek = now.getDay(); // 0=Sun, 1=Mon, 2=Tue, 3=Wed, 4=Thu, 5=Fri
+  if (alwaysIncludeWtd || (todayDayOfWeek >= 3 && todayDayOfWeek <= 5)) {
     const yesterday = new Date(yesterdayPeriod + 'T00:00:00');
-    const wtdPeriod = getWTDPeriod(yesterday);
+    const wtdPeriod = getWTDPeriod(yesterday, options.yoyAlignment);
     console.log(`WTD: ${wtdPeriod.start} to ${wtdPeriod.end} (${wtdPeriod.label})`);
 
-    const wtdCountries = getAllCountryMetrics(allData, wtdPeriod.start, wtdPeriod.end, wtdPeriod.yoyStart, wtdPeriod.yoyEnd, false);
-    const wtdWeighted = calculateWeightedTotals(wtdCountries);
-
-    reportData.wtd = {
-      label: wtdPeriod.label,
-      countries: wtdCountries,
-      totals: {
-        revenue: wtdWeighted.totalRevenue,
-        spend: wtdWeighted.totalSpend,
-        roas: wtdWeighted.weightedROAS,
-        ncRoas: wtdWeighted.weightedNCROAS,
-        ncPercent: wtdWeighted.weightedNCPercent,
-        orders: wtdWeighted.totalOrders,
-        aov: wtdWeighted.weightedAOV,
-        vsLY: getTotalPrevYearRevenue(wtdCountries),
-      },
-    };
+    const wtdEvents = getEventYoYPeriods(wtdPeriod, getEventAlignments(shops, wtdPeriod, options));
+    const wtdCountries = getAllCountryMetrics(shops, allData, wtdPeriod.start, wtdPeriod.end, wtdPeriod.yoyStart, wtdPeriod.yoyEnd, false, conversion, wtdEvents);
+    const projections = getProjections(shops, allData, yesterdayPeriod, conversion);
+    const weekBudget = { start: wtdPeriod.start, end: shiftDate(wtdPeriod.start, 6) }; // Mon–Sun
+    const targets = getTargets(wtdCountries, dataSet.targets ?? [], weekBudget, yesterdayPeriod, conversion);
+
+    reportData.wtd = getPacingData(wtdPeriod.label, wtdCountries, shops, projections, targets, yesterdayPeriod);
   }
 
-  const messages = generateDailyReport(reportData);
-  await sendBlockMessages(webhookUrl ?? env.SLACK_WEBHOOK_URL_MARKETING, messages);
-  console.log('Daily report sent!');
+  // Data quality for the days shown (WTD window covers yesterday too)
+  const qualityStart = reportData.wtd ? getWTDPeriod(reportData.date).start : yesterdayPeriod;
+  reportData.dataQualityIssues = getDataQualityIssues(buildDataQualityReport(dataSet, qualityStart, yesterdayPeriod));
+
+  return reportData;
+}
+
+async function sendDailyReport(
+  env: Env,
+  destinations: SlackDestination[],
+  now: Date = new Date(),
+  loadOptions: LoadOptions = {},
+  canDelay: boolean = false
+): Promise<boolean> {
+  console.log('Generating daily marketing report...');
+
+  const shops = await loadShopRegistry(env);
+  const dataSet = await loadAllMarketingData(createDataSource(env), shops, { ...loadOptions, ranges: getDailyReportRanges(now, shops) });
+  // Same data for every destination; currency and columns differ per destination
+  const reports = destinations.map(destination => ({
+    destination,
+    reportData: buildDailyReportData(dataSet, now, destination.options),
+  }));
+  if (reports.length > 0 && shouldDelayForSync(reports[0].reportData.notSynced, canDelay)) return false;
+
+  for (const { destination, reportData } of reports) {
+    await sendBlockMessages(destination.webhookUrl, generateDailyReport(reportData));
+    console.log(`Daily report sent to ${destination.name} (${destination.options.currency})!`);
+  }
+  return true;
 }
 
 // =============================================================================
 // WEEKLY REPORT
 // =============================================================================
 
-async function sendWeeklyReport(env: Env, webhookUrl?: string): Promise<void> {
-  console.log('Generating weekly marketing report...');
-
-  const credentials = getGoogleCredentials(env);
-  const allData = await loadAllMarketingData(credentials);
+/**
+ * Build weekly report data (previous Mon–Sun relative to `now`)
+ * @param dataSet Loaded shop data
+ * @param now Day the report runs
+ * @param options FX mode etc.
+ */
+function buildWeeklyReportData(
+  dataSet: MarketingDataSet,
+  now: Date,
+  options: ReportOptions
+): WeeklyReportData {
+  const conversion: ConversionOptions = {
+    rates: dataSet.fxRates,
+    shops: dataSet.shops,
+    currency: options.currency,
+    yoyMode: options.yoyFxMode,
+    vatMode: options.vatMode,
+  };
+  const shops = dataSet.shops ?? SHOPS;
 
   // Previous week (Mon-Sun)
-  const weekPeriod = getWeekPeriod(1); // 1 week ago
-  const weekYoY = getSameWeekLastYear(weekPeriod.start);
-
-  // Get countries with spend
-  const countries = getAllCountryMetrics(
-    allData,
-    weekPeriod.start,
-    weekPeriod.end,
-    weekYoY.start,
-    weekYoY.end,
-    false // No NC Orders in weekly
+  const weekPeriod = getWeekPeriod(1, now); // 1 week ago
+  const weekYoY = getYoYWeek(weekPeriod.start, options.yoyAlignment);
+
+  // Leave out markets whose tab isn't synced through the period yet (instead of showing zeros)
+  const notSynced = getUnsyncedShops(shops, dataSet.data, weekPeriod.end);
+  const notSyncedCodes = notSynced.map(s => s.shopCode);
+  const allData = withoutShops(dataSet.data, notSyncedCodes);
+
+  // Peak season: markets near a peak event compare with the same days relative to it last year
+  const yoyEvents = getEventAlignments(shops, weekPeriod, options);
+
+  // Get countries with spend, with the week before for PoP and pixel ROAS scaled up by the lag model
+  const weekCountries = withPreviousPeriod(
+    getAllCountryMetrics(
+      shops,
+      allData,
+      weekPeriod.start,
+      weekPeriod.end,
+      weekYoY.start,
+      weekYoY.end,
+      true, // NC Orders + NC-CPA per channel
+      conversion,
+      getEventYoYPeriods(weekPeriod, yoyEvents)
+    ),
+    getPeriodMetrics(shops, allData, getWeekPeriod(2, now), true, conversion)
   );
-
-  // Calculate weighted totals
-  const weighted = calculateWeightedTotals(countries);
-
-  // Get no-spend countries
-  const noSpendCountries = getCountriesWithoutSpend(allData, weekPeriod.start, weekPeriod.end);
+  const countries = withPixelMaturity(weekCountries, allData, weekPeriod, dataSet.pixelLag, getDataDate(dataSet.asOf));
 
   // Generate 3-week trend
   const trend: TrendData[] = [];
   for (let weeksAgo = 1; weeksAgo <= 3; weeksAgo++) {
-    const period = getWeekPeriod(weeksAgo);
-    const yoy = getSameWeekLastYear(period.start);
+    const period = getWeekPeriod(weeksAgo, now);
+    const yoy = getYoYWeek(period.start, options.yoyAlignment);
     const weekNum = getWeekNumber(new Date(period.start + 'T00:00:00'));
 
-    const weekCountries = getAllCountryMetrics(allData, period.start, period.end, yoy.start, yoy.end, false);
-    const weekWeighted = calculateWeightedTotals(weekCountries);
-
-    trend.push({
-      period: `Uke ${weekNum}`,
-      revenue: weekWeighted.totalRevenue,
-      spend: weekWeighted.totalSpend,
-      roas: weekWeighted.weightedROAS,
-      ncRoas: weekWeighted.weightedNCROAS,
-      ncPercent: weekWeighted.weightedNCPercent,
-      vsLY: getTotalPrevYearRevenue(weekCountries),
-    });
+    const weekEvents = getEventYoYPeriods(period, getEventAlignments(shops, period, options));
+    const weekCountries = getAllCountryMetrics(shops, allData, period.start, period.end, yoy.start, yoy.end, false, conversion, weekEvents);
+    trend.push(getTrendData(`Week ${weekNum}`, weekCountries, shops));
   }
 
   const reportData: WeeklyReportData = {
@@ -184,84 +569,125 @@ async function sendWeeklyReport(env: Env, webhookUrl?: string): Promise<void> {
     startDate: new Date(weekPeriod.start + 'T00:00:00'),
     endDate: new Date(weekPeriod.end + 'T00:00:00'),
     countries,
-    totals: {
-      revenue: weighted.totalRevenue,
-      spend: weighted.totalSpend,
-      roas: weighted.weightedROAS,
-      ncRoas: weighted.weightedNCROAS,
-      ncPercent: weighted.weightedNCPercent,
-      orders: weighted.totalOrders,
-      aov: weighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(countries),
-    },
+    totals: getTotals(countries),
+    groups: getGroups(countries, shops),
     trend,
-    noSpendCountries,
+    noSpendCountries: getCountriesWithoutSpend(shops, allData, weekPeriod.start, weekPeriod.end).filter(c => !notSyncedCodes.includes(c)),
+    notSynced,
     pixelDataIncomplete: isPixelDataIncomplete(weekPeriod.end),
+    pixelLagSnapshots: dataSet.pixelLag?.snapshots,
+    currency: options.currency,
+    showLocalCurrency: options.showLocalCurrency,
+    yoyFxMode: options.yoyFxMode,
+    yoyAlignment: options.yoyAlignment,
+    yoyEvents: yoyEvents.filter(e => countries.some(c => c.shop.code === e.shopCode)),
+    missingShippingCutoffs: getMissingCutoffs(countries, weekPeriod, options),
+    vatMode: options.vatMode,
+    marketGroups: options.marketGroups,
+    showWeightedTotals: options.showWeightedTotals,
+    dataAsOf: dataSet.asOf,
+    dataQualityIssues: [],
+    comparisons: options.comparisons.weekly,
   };
 
   // MTD: skip when month started on the same Monday as the reported week
   const lastWeekSunday = new Date(weekPeriod.end + 'T00:00:00');
-  const mtdPeriod = getMTDPeriod(lastWeekSunday);
+  const mtdPeriod = getMTDPeriod(lastWeekSunday, options.yoyAlignment);
   if (mtdPeriod.start !== weekPeriod.start) {
     console.log(`MTD: ${mtdPeriod.start} to ${mtdPeriod.end} (${mtdPeriod.label})`);
 
-    const mtdCountries = getAllCountryMetrics(allData, mtdPeriod.start, mtdPeriod.end, mtdPeriod.yoyStart, mtdPeriod.yoyEnd, false);
-    const mtdWeighted = calculateWeightedTotals(mtdCountries);
-
-    reportData.mtd = {
-      label: mtdPeriod.label,
-      countries: mtdCountries,
-      totals: {
-        revenue: mtdWeighted.totalRevenue,
-        spend: mtdWeighted.totalSpend,
-        roas: mtdWeighted.weightedROAS,
-        ncRoas: mtdWeighted.weightedNCROAS,
-        ncPercent: mtdWeighted.weightedNCPercent,
-        orders: mtdWeighted.totalOrders,
-        aov: mtdWeighted.weightedAOV,
-        vsLY: getTotalPrevYearRevenue(mtdCountries),
-      },
-    };
+    const mtdCountries = getAllCountryMetrics(shops, allData, mtdPeriod.start, mtdPeriod.end, mtdPeriod.yoyStart, mtdPeriod.yoyEnd, false, conversion);
+    const projections = getProjections(shops, allData, mtdPeriod.end, conversion);
+    const targets = getTargets(mtdCountries, dataSet.targets ?? [], getMonthBounds(mtdPeriod.end), mtdPeriod.end, conversion);
+
+    reportData.mtd = getPacingData(mtdPeriod.label, mtdCountries, shops, projections, targets, mtdPeriod.end);
   }
 
-  const messages = generateWeeklyReport(reportData);
-  await sendBlockMessages(webhookUrl ?? env.SLACK_WEBHOOK_URL_MARKETING, messages);
-  console.log('Weekly report sent!');
+  // Data quality for the days shown (MTD window covers the week when present)
+  const qualityStart = reportData.mtd && mtdPeriod.start < weekPeriod.start ? mtdPeriod.start : weekPeriod.start;
+  reportData.dataQualityIssues = getDataQualityIssues(buildDataQualityReport(dataSet, qualityStart, weekPeriod.end));
+
+  return reportData;
+}
+
+async function sendWeeklyReport(
+  env: Env,
+  destinations: SlackDestination[],
+  now: Date = new Date(),
+  loadOptions: LoadOptions = {},
+  canDelay: boolean = false
+): Promise<boolean> {
+  console.log('Generating weekly marketing report...');
+
+  const shops = await loadShopRegistry(env);
+  const dataSet = await withPixelLagModel(env, await loadAllMarketingData(createDataSource(env), shops, { ...loadOptions, ranges: getWeeklyReportRanges(now, shops) }));
+  // Same data for every destination; currency and columns differ per destination
+  const reports = destinations.map(destination => ({
+    destination,
+    reportData: buildWeeklyReportData(dataSet, now, destination.options),
+  }));
+  if (reports.length > 0 && shouldDelayForSync(reports[0].reportData.notSynced, canDelay)) return false;
+
+  for (const { destination, reportData } of reports) {
+    await sendBlockMessages(destination.webhookUrl, generateWeeklyReport(reportData));
+    console.log(`Weekly report sent to ${destination.name} (${destination.options.currency})!`);
+  }
+  return true;
 }
 
 // =============================================================================
 // MONTHLY REPORT
 // =============================================================================
 
-async function sendMonthlyReport(env: Env, webhookUrl?: string): Promise<void> {
-  console.log('Generating monthly marketing report...');
-
-  const credentials = getGoogleCredentials(env);
-  const allData = await loadAllMarketingData(credentials);
+/**
+ * Build monthly report data (previous calendar month relative to `now`)
+ * @param dataSet Loaded shop data
+ * @param now Day the report runs
+ * @param options FX mode etc.
+ */
+function buildMonthlyReportData(
+  dataSet: MarketingDataSet,
+  now: Date,
+  options: ReportOptions
+): MonthlyReportData {
+  const conversion: ConversionOptions = {
+    rates: dataSet.fxRates,
+    shops: dataSet.shops,
+    currency: options.currency,
+    yoyMode: options.yoyFxMode,
+    vatMode: options.vatMode,
+  };
+  const shops = dataSet.shops ?? SHOPS;
 
   // Previous month
-  const monthPeriod = getPreviousMonthPeriod();
-  const monthYoY = getSameMonthLastYear(monthPeriod.start);
+  const monthPeriod = getPreviousMonthPeriod(now);
+  const monthYoY = getYoYMonth(monthPeriod.start, options.yoyAlignment);
+
+  // Leave out markets whose tab isn't synced through the period yet (instead of showing zeros)
+  const notSynced = getUnsyncedShops(shops, dataSet.data, monthPeriod.end);
+  const notSyncedCodes = notSynced.map(s => s.shopCode);
+  const allData = withoutShops(dataSet.data, notSyncedCodes);
 
-  // Get countries with spend
-  const countries = getAllCountryMetrics(
+  // Get countries with spend, with the month's budget + targets and the month before for PoP
+  const monthMetrics = getAllCountryMetrics(
+    shops,
     allData,
     monthPeriod.start,
     monthPeriod.end,
     monthYoY.start,
     monthYoY.end,
-    true // Include NC Orders in monthly
+    true, // NC Orders + NC-CPA per channel
+    conversion
+  );
+  const targets = getTargets(monthMetrics, dataSet.targets ?? [], monthPeriod, monthPeriod.end, conversion);
+  const monthBefore = getMonthBounds(shiftDate(monthPeriod.start, -1));
+  const countries = withPreviousPeriod(
+    monthMetrics.map(c => ({ ...c, target: targets.get(c.shop.code) })),
+    getPeriodMetrics(shops, allData, monthBefore, true, conversion)
   );
-
-  // Calculate weighted totals
-  const weighted = calculateWeightedTotals(countries);
-
-  // Get no-spend countries
-  const noSpendCountries = getCountriesWithoutSpend(allData, monthPeriod.start, monthPeriod.end);
 
   // Generate 3-month trend
   const trend: TrendData[] = [];
-  const now = new Date();
   const currentYear = now.getFullYear();
   const currentMonth = now.getMonth(); // 0-indexed
 
@@ -276,240 +702,439 @@ async function sendMonthlyReport(env: Env, webhookUrl?: string): Promise<void> {
     }
 
     const period = getMonthPeriod(month + 1, year); // getMonthPeriod uses 1-indexed months
-    const yoy = getSameMonthLastYear(period.start);
-
-    const monthCountries = getAllCountryMetrics(allData, period.start, period.end, yoy.start, yoy.end, true);
-    const monthWeighted = calculateWeightedTotals(monthCountries);
-
-    trend.push({
-      period: getMonthName(month + 1),
-      revenue: monthWeighted.totalRevenue,
-      spend: monthWeighted.totalSpend,
-      roas: monthWeighted.weightedROAS,
-      ncRoas: monthWeighted.weightedNCROAS,
-      ncPercent: monthWeighted.weightedNCPercent,
-      vsLY: getTotalPrevYearRevenue(monthCountries),
-    });
+    const yoy = getYoYMonth(period.start, options.yoyAlignment);
+
+    const monthCountries = getAllCountryMetrics(shops, allData, period.start, period.end, yoy.start, yoy.end, true, conversion);
+    trend.push(getTrendData(getMonthName(month + 1), monthCountries, shops));
   }
 
-  const reportData: MonthlyReportData = {
+  return {
     month: new Date(monthPeriod.start + 'T00:00:00').getMonth() + 1, // 1-indexed
     year: new Date(monthPeriod.start + 'T00:00:00').getFullYear(),
     countries,
-    totals: {
-      revenue: weighted.totalRevenue,
-      spend: weighted.totalSpend,
-      roas: weighted.weightedROAS,
-      ncRoas: weighted.weightedNCROAS,
-      ncPercent: weighted.weightedNCPercent,
-      orders: weighted.totalOrders,
-      aov: weighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(countries),
-    },
+    totals: getTotals(countries),
+    groups: getGroups(countries, shops),
     trend,
-    noSpendCountries,
+    noSpendCountries: getCountriesWithoutSpend(shops, allData, monthPeriod.start, monthPeriod.end).filter(c => !notSyncedCodes.includes(c)),
+    notSynced,
+    currency: options.currency,
+    showLocalCurrency: options.showLocalCurrency,
+    yoyFxMode: options.yoyFxMode,
+    yoyAlignment: options.yoyAlignment,
+    vatMode: options.vatMode,
+    marketGroups: options.marketGroups,
+    showWeightedTotals: options.showWeightedTotals,
+    dataAsOf: dataSet.asOf,
+    comparisons: options.comparisons.monthly,
   };
+}
 
-  const messages = generateMonthlyReport(reportData);
-  await sendBlockMessages(webhookUrl ?? env.SLACK_WEBHOOK_URL_MARKETING, messages);
-  console.log('Monthly report sent!');
+async function sendMonthlyReport(
+  env: Env,
+  destinations: SlackDestination[],
+  now: Date = new Date(),
+  loadOptions: LoadOptions = {},
+  canDelay: boolean = false
+): Promise<boolean> {
+  console.log('Generating monthly marketing report...');
+
+  const dataSet = await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), { ...loadOptions, ranges: getMonthlyReportRanges(now) });
+  // Same data for every destination; currency and columns differ per destination
+  const reports = destinations.map(destination => ({
+    destination,
+    reportData: buildMonthlyReportData(dataSet, now, destination.options),
+  }));
+  if (reports.length > 0 && shouldDelayForSync(reports[0].reportData.notSynced, canDelay)) return false;
+
+  for (const { destination, reportData } of reports) {
+    await sendBlockMessages(destination.webhookUrl, generateMonthlyReport(reportData));
+    console.log(`Monthly report sent to ${destination.name} (${destination.options.currency})!`);
+  }
+  return true;
 }
 
 // =============================================================================
-// PREVIEW ENDPOINTS
+// SEASON-TO-DATE REPORT
 // =============================================================================
 
-async function previewDailyReport(env: Env): Promise<Response> {
-  const credentials = getGoogleCredentials(env);
-  const allData = await loadAllMarketingData(credentials);
+// Previous seasons the season report compares with (last season, two seasons ago)
+const PREVIOUS_SEASONS = [1, 2];
 
-  const yesterdayPeriod = getYesterdayPeriod();
-  const yesterdayYoY = getSameDayLastYear(yesterdayPeriod);
+// Season so far, and each previous season whole and to the same point (either alignment)
+function getSeasonReportRanges(now: Date): DateRange[] {
+  const season = getSeasonToDatePeriod(getYesterdayPeriod(now));
+  const year = Number(season.start.slice(0, 4));
+  const ranges: DateRange[] = [getFreshnessWindow(season.end), season];
 
-  const countries = getAllCountryMetrics(allData, yesterdayPeriod, yesterdayPeriod, yesterdayYoY, yesterdayYoY, false);
-  const weighted = calculateWeightedTotals(countries);
-  const noSpendCountries = getCountriesWithoutSpend(allData, yesterdayPeriod, yesterdayPeriod);
+  for (const seasonsAgo of PREVIOUS_SEASONS) {
+    ranges.push(
+      getSeasonPeriod(year - seasonsAgo),
+      ...YOY_ALIGNMENTS.map(alignment => getSeasonToDatePeriod(season.end, seasonsAgo, alignment))
+    );
+  }
+  return ranges;
+}
 
-  const reportData: DailyReportData = {
-    date: new Date(yesterdayPeriod + 'T00:00:00'),
-    countries,
-    totals: {
-      revenue: weighted.totalRevenue,
-      spend: weighted.totalSpend,
-      roas: weighted.weightedROAS,
-      ncRoas: weighted.weightedNCROAS,
-      ncPercent: weighted.weightedNCPercent,
-      orders: weighted.totalOrders,
-      aov: weighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(countries),
-    },
-    noSpendCountries,
+// Days the pace table adds up to: every Sunday of the season so far, then the last day
+function getSeasonPaceDates(season: DateRange): string[] {
+  const dates: string[] = [];
+  for (let date = season.start; date < season.end; date = shiftDate(date, 1)) {
+    if (new Date(date + 'T00:00:00').getDay() === 0) dates.push(date);
+  }
+  return [...dates, season.end];
+}
+
+// Revenue of a period for the given markets, in the reporting currency
+function getRevenue(shops: Shop[], allData: Map<string, MarketingDailyMetrics[]>, period: DateRange, conversion: ConversionOptions): number {
+  return getPeriodMetrics(shops, allData, period, false, conversion).reduce((sum, c) => sum + c.revenue, 0);
+}
+
+/**
+ * Build season-to-date report data (Sep 1 through the day before `now`)
+ * Each previous season is compared to the same point: same weekdays or same dates, per the YoY alignment.
+ * @param dataSet Loaded shop data
+ * @param now Day the report runs
+ * @param options FX mode etc.
+ */
+function buildSeasonReportData(
+  dataSet: MarketingDataSet,
+  now: Date,
+  options: ReportOptions
+): SeasonReportData {
+  const conversion: ConversionOptions = {
+    rates: dataSet.fxRates,
+    shops: dataSet.shops,
+    currency: options.currency,
+    yoyMode: options.yoyFxMode,
+    vatMode: options.vatMode,
+  };
+  const shops = dataSet.shops ?? SHOPS;
+  const season = getSeasonToDatePeriod(getYesterdayPeriod(now));
+  const year = Number(season.start.slice(0, 4));
+
+  // Leave out markets whose tab isn't synced through the period yet (instead of showing zeros)
+  const notSynced = getUnsyncedShops(shops, dataSet.data, season.end);
+  const allData = withoutShops(dataSet.data, notSynced.map(s => s.shopCode));
+
+  // This season through `end` against a previous season to the same point
+  const compareTo = (end: string, seasonsAgo: number): CountryMarketingMetrics[] => {
+    const previous = getSeasonToDatePeriod(end, seasonsAgo, options.yoyAlignment);
+    return getAllCountryMetrics(shops, allData, season.start, end, previous.start, previous.end, false, conversion);
   };
 
-  // Always show WTD in preview (regardless of day)
-  const yesterday = new Date(yesterdayPeriod + 'T00:00:00');
-  const wtdPeriod = getWTDPeriod(yesterday);
-  const wtdCountries = getAllCountryMetrics(allData, wtdPeriod.start, wtdPeriod.end, wtdPeriod.yoyStart, wtdPeriod.yoyEnd, false);
-  const wtdWeighted = calculateWeightedTotals(wtdCountries);
-  reportData.wtd = {
-    label: wtdPeriod.label,
-    countries: wtdCountries,
-    totals: {
-      revenue: wtdWeighted.totalRevenue,
-      spend: wtdWeighted.totalSpend,
-      roas: wtdWeighted.weightedROAS,
-      ncRoas: wtdWeighted.weightedNCROAS,
-      ncPercent: wtdWeighted.weightedNCPercent,
-      orders: wtdWeighted.totalOrders,
-      aov: wtdWeighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(wtdCountries),
-    },
+  const comparisons: SeasonComparison[] = PREVIOUS_SEASONS.map(seasonsAgo => {
+    const countries = compareTo(season.end, seasonsAgo);
+    return {
+      period: getSeasonToDatePeriod(season.end, seasonsAgo, options.yoyAlignment),
+      countries,
+      groups: getGroups(countries, shops),
+      totals: getTotals(countries),
+    };
+  });
+
+  const pace = getSeasonPaceDates(season).map(date => {
+    const totals = PREVIOUS_SEASONS.map(seasonsAgo => getTotals(compareTo(date, seasonsAgo)));
+    return { date, current: totals[0], previous: totals.map(t => t.previous) };
+  });
+
+  // Season total if the rest goes like last season's did: so far × (last season's total ÷ its total to
+  // the same point), both at actual rates, over the markets that have last season
+  const lastSeason = comparisons[0];
+  const comparable = shops.filter(shop => lastSeason.countries.some(c => c.shop.code === shop.code && c.previous));
+  const lastSeasonTotal = getRevenue(comparable, allData, getSeasonPeriod(year - 1), conversion);
+  const lastSeasonSoFar = getRevenue(comparable, allData, lastSeason.period, conversion);
+  const seasonEnd = season.end < getSeasonPeriod(year).end && lastSeasonSoFar > 0
+    ? { revenue: lastSeason.totals.revenue * (lastSeasonTotal / lastSeasonSoFar), lastSeason: lastSeasonTotal }
+    : null;
+
+  return {
+    season: year,
+    startDate: new Date(season.start + 'T00:00:00'),
+    endDate: new Date(season.end + 'T00:00:00'),
+    comparisons,
+    pace,
+    seasonEnd,
+    notSynced,
+    currency: options.currency,
+    yoyFxMode: options.yoyFxMode,
+    yoyAlignment: options.yoyAlignment,
+    vatMode: options.vatMode,
+    marketGroups: options.marketGroups,
+    dataAsOf: dataSet.asOf,
   };
+}
 
-  const messages = generateDailyReport(reportData);
+async function sendSeasonReport(
+  env: Env,
+  destinations: SlackDestination[],
+  now: Date = new Date(),
+  loadOptions: LoadOptions = {},
+  canDelay: boolean = false
+): Promise<boolean> {
+  console.log('Generating season-to-date report...');
+
+  const dataSet = await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), { ...loadOptions, ranges: getSeasonReportRanges(now) });
+  // Same data for every destination; currency and columns differ per destination
+  const reports = destinations.map(destination => ({
+    destination,
+    reportData: buildSeasonReportData(dataSet, now, destination.options),
+  }));
+  if (reports.length > 0 && shouldDelayForSync(reports[0].reportData.notSynced, canDelay)) return false;
+
+  for (const { destination, reportData } of reports) {
+    await sendBlockMessages(destination.webhookUrl, generateSeasonReport(reportData));
+    console.log(`Season report sent to ${destination.name} (${destination.options.currency})!`);
+  }
+  return true;
+}
+
+// =============================================================================
+// PREVIEW ENDPOINTS
+// =============================================================================
+
+function textResponse(messages: SlackBlock[][]): Response {
   return new Response(blocksToText(messages), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
 }
 
-async function previewWeeklyReport(env: Env): Promise<Response> {
-  const credentials = getGoogleCredentials(env);
-  const allData = await loadAllMarketingData(credentials);
+async function previewDailyReport(
+  env: Env,
+  now: Date,
+  loadOptions: LoadOptions,
+  reportOptions: ReportOptions
+): Promise<Response> {
+  const shops = await loadShopRegistry(env);
+  const dataSet = await loadAllMarketingData(createDataSource(env), shops, { ...loadOptions, ranges: getDailyReportRanges(now, shops) });
+  // Always show WTD in preview (regardless of day)
+  return textResponse(generateDailyReport(buildDailyReportData(dataSet, now, reportOptions, true)));
+}
 
-  const weekPeriod = getWeekPeriod(1);
-  const weekYoY = getSameWeekLastYear(weekPeriod.start);
+async function previewWeeklyReport(
+  env: Env,
+  now: Date,
+  loadOptions: LoadOptions,
+  reportOptions: ReportOptions
+): Promise<Response> {
+  const shops = await loadShopRegistry(env);
+  const dataSet = await withPixelLagModel(env, await loadAllMarketingData(createDataSource(env), shops, { ...loadOptions, ranges: getWeeklyReportRanges(now, shops) }));
+  return textResponse(generateWeeklyReport(buildWeeklyReportData(dataSet, now, reportOptions)));
+}
 
-  const countries = getAllCountryMetrics(allData, weekPeriod.start, weekPeriod.end, weekYoY.start, weekYoY.end, false);
-  const weighted = calculateWeightedTotals(countries);
-  const noSpendCountries = getCountriesWithoutSpend(allData, weekPeriod.start, weekPeriod.end);
+async function previewMonthlyReport(
+  env: Env,
+  now: Date,
+  loadOptions: LoadOptions,
+  reportOptions: ReportOptions
+): Promise<Response> {
+  const dataSet = await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), { ...loadOptions, ranges: getMonthlyReportRanges(now) });
+  return textResponse(generateMonthlyReport(buildMonthlyReportData(dataSet, now, reportOptions)));
+}
 
-  const trend: TrendData[] = [];
-  for (let weeksAgo = 1; weeksAgo <= 3; weeksAgo++) {
-    const period = getWeekPeriod(weeksAgo);
-    const yoy = getSameWeekLastYear(period.start);
-    const weekNum = getWeekNumber(new Date(period.start + 'T00:00:00'));
+async function previewSeasonReport(
+  env: Env,
+  now: Date,
+  loadOptions: LoadOptions,
+  reportOptions: ReportOptions
+): Promise<Response> {
+  const dataSet = await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), { ...loadOptions, ranges: getSeasonReportRanges(now) });
+  return textResponse(generateSeasonReport(buildSeasonReportData(dataSet, now, reportOptions)));
+}
+
+// =============================================================================
+// DATA QUALITY ENDPOINT
+// =============================================================================
 
-    const weekCountries = getAllCountryMetrics(allData, period.start, period.end, yoy.start, yoy.end, false);
-    const weekWeighted = calculateWeightedTotals(weekCountries);
-
-    trend.push({
-      period: `Week ${weekNum}`,
-      revenue: weekWeighted.totalRevenue,
-      spend: weekWeighted.totalSpend,
-      roas: weekWeighted.weightedROAS,
-      ncRoas: weekWeighted.weightedNCROAS,
-      ncPercent: weekWeighted.weightedNCPercent,
-      vsLY: getTotalPrevYearRevenue(weekCountries),
-    });
+// ?start=YYYY-MM-DD&end=YYYY-MM-DD limits date-based checks to a window (default: all data)
+async function dataQualityReport(env: Env, url: URL, loadOptions: LoadOptions): Promise<Response> {
+  const start = url.searchParams.get('start') ?? undefined;
+  const end = url.searchParams.get('end') ?? undefined;
+  const isDate = (d?: string) => d === undefined || /^\d{4}-\d{2}-\d{2}$/.test(d);
+  if (!isDate(start) || !isDate(end) || (start === undefined) !== (end === undefined)) {
+    return new Response('start and end must both be given as YYYY-MM-DD', { status: 400 });
   }
 
-  const reportData: WeeklyReportData = {
-    weekNumber: getWeekNumber(new Date(weekPeriod.start + 'T00:00:00')),
-    year: new Date(weekPeriod.start + 'T00:00:00').getFullYear(),
-    startDate: new Date(weekPeriod.start + 'T00:00:00'),
-    endDate: new Date(weekPeriod.end + 'T00:00:00'),
-    countries,
-    totals: {
-      revenue: weighted.totalRevenue,
-      spend: weighted.totalSpend,
-      roas: weighted.weightedROAS,
-      ncRoas: weighted.weightedNCROAS,
-      ncPercent: weighted.weightedNCPercent,
-      orders: weighted.totalOrders,
-      aov: weighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(countries),
-    },
-    trend,
-    noSpendCountries,
-    pixelDataIncomplete: isPixelDataIncomplete(weekPeriod.end),
-  };
+  const dataSet = await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), loadOptions);
+  const report = buildDataQualityReport(dataSet, start, end);
+  return new Response(JSON.stringify(report, null, 2), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
 
-  // Always show MTD in preview (regardless of week position)
-  const previewSunday = new Date(weekPeriod.end + 'T00:00:00');
-  const mtdPeriod = getMTDPeriod(previewSunday);
-  if (mtdPeriod.start !== weekPeriod.start) {
-    const mtdCountries = getAllCountryMetrics(allData, mtdPeriod.start, mtdPeriod.end, mtdPeriod.yoyStart, mtdPeriod.yoyEnd, false);
-    const mtdWeighted = calculateWeightedTotals(mtdCountries);
-    reportData.mtd = {
-      label: mtdPeriod.label,
-      countries: mtdCountries,
-      totals: {
-        revenue: mtdWeighted.totalRevenue,
-        spend: mtdWeighted.totalSpend,
-        roas: mtdWeighted.weightedROAS,
-        ncRoas: mtdWeighted.weightedNCROAS,
-        ncPercent: mtdWeighted.weightedNCPercent,
-        orders: mtdWeighted.totalOrders,
-        aov: mtdWeighted.weightedAOV,
-        vsLY: getTotalPrevYearRevenue(mtdCountries),
-      },
-    };
+// =============================================================================
+// TRACKING HEALTH
+// =============================================================================
+
+const HEALTH_ALERT_TTL_SECONDS = 60 * 60 * 24 * 14;
+
+function healthAlertKey(alert: TrackingAlert): string {
+  return `health-alert:${alert.check}:${alert.shop.code}:${alert.channel}:${alert.date}`;
+}
+
+// Tracking problems up to the day before `now`
+async function getTrackingAlerts(env: Env, now: Date, loadOptions: LoadOptions = {}): Promise<TrackingAlert[]> {
+  const endDate = getYesterdayPeriod(now);
+  const dataSet = await withPixelLagModel(env, await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), { ...loadOptions, ranges: [getHealthCheckWindow(endDate)] }));
+  return checkTrackingHealth(dataSet.shops ?? SHOPS, dataSet.data, endDate, dataSet.pixelLag);
+}
+
+// ?date=YYYY-MM-DD checks as if run that day
+async function trackingHealthReport(env: Env, now: Date, loadOptions: LoadOptions): Promise<Response> {
+  const alerts = await getTrackingAlerts(env, now, loadOptions);
+  const body = alerts.map(alert => ({
+    shop: alert.shop.code,
+    channel: alert.channel,
+    check: alert.check,
+    date: alert.date,
+    value: alert.value,
+    baseline: alert.baseline,
+    message: formatTrackingAlert(alert),
+  }));
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Post new tracking-health alerts (runs with every cron)
+ * Alerts already posted are remembered in KV for two weeks; without KV only the regular
+ * (first) run of a schedule checks, so retries don't post the same alerts again.
+ */
+async function runHealthCheck(env: Env, now: Date, isFirstAttempt: boolean, loadOptions: LoadOptions = {}): Promise<void> {
+  const state = env.MARKETING_CACHE;
+  if (!state && !isFirstAttempt) return;
+
+  const alerts: TrackingAlert[] = [];
+  for (const alert of await getTrackingAlerts(env, now, loadOptions)) {
+    if (state && await state.get(healthAlertKey(alert))) continue;
+    alerts.push(alert);
+  }
+  if (alerts.length === 0) {
+    console.log('Tracking health: no new alerts');
+    return;
   }
 
-  const messages = generateWeeklyReport(reportData);
-  return new Response(blocksToText(messages), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+  const webhookName = env.HEALTH_ALERT_WEBHOOK ?? 'SLACK_WEBHOOK_URL_MARKETING';
+  const webhookUrl = getEnvString(env, webhookName);
+  if (!webhookUrl) {
+    console.error(`Tracking health: webhook secret ${webhookName} not set — ${alerts.length} alert(s) not posted`);
+    return;
+  }
+
+  if (!await sendBlockMessage(webhookUrl, generateTrackingHealthAlert(alerts), 'Tracking health alert')) return;
+  console.log(`Tracking health: ${alerts.length} alert(s) sent to ${webhookName}`);
+
+  if (state) {
+    await Promise.all(alerts.map(alert =>
+      state.put(healthAlertKey(alert), now.toISOString(), { expirationTtl: HEALTH_ALERT_TTL_SECONDS })
+    ));
+  }
 }
 
-async function previewMonthlyReport(env: Env): Promise<Response> {
-  const credentials = getGoogleCredentials(env);
-  const allData = await loadAllMarketingData(credentials);
+// =============================================================================
+// PIXEL LAG
+// =============================================================================
 
-  const monthPeriod = getPreviousMonthPeriod();
-  const monthYoY = getSameMonthLastYear(monthPeriod.start);
+// Lag model from the stored snapshots (none without KV, or before enough days have matured)
+async function withPixelLagModel(env: Env, dataSet: MarketingDataSet): Promise<MarketingDataSet> {
+  if (!env.MARKETING_CACHE) return dataSet;
+  const model = buildPixelLagModel(await loadPixelSnapshots(env.MARKETING_CACHE, getDataDate(dataSet.asOf)));
+  return Object.keys(model.factors).length > 0 ? { ...dataSet, pixelLag: model } : dataSet;
+}
 
-  const countries = getAllCountryMetrics(allData, monthPeriod.start, monthPeriod.end, monthYoY.start, monthYoY.end, true);
-  const weighted = calculateWeightedTotals(countries);
-  const noSpendCountries = getCountriesWithoutSpend(allData, monthPeriod.start, monthPeriod.end);
+// Completion factors per channel and age, from the snapshots taken up to `now`
+async function pixelLagReport(env: Env, now: Date): Promise<Response> {
+  const snapshots = env.MARKETING_CACHE ? await loadPixelSnapshots(env.MARKETING_CACHE, getDataDate(now)) : [];
+  const model = buildPixelLagModel(snapshots);
+  const body = {
+    snapshots: model.snapshots,
+    factors: Object.fromEntries(Object.entries(model.factors).map(([key, factors]) => [
+      key === '*' ? 'all' : getChannelName(key),
+      Object.fromEntries(factors.map((f, age) => [age, f]).filter(([age]) => age !== 0)),
+    ])),
+  };
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
 
-  const trend: TrendData[] = [];
-  const now = new Date();
-  const currentYear = now.getFullYear();
-  const currentMonth = now.getMonth();
+// Own cron, every day including weekends (report crons skip some days); must match wrangler.toml.
+// Runs after the last report retry so the sheet has synced yesterday by then.
+const PIXEL_SNAPSHOT_CRON = '30 10 * * *';
+
+// Record today's pixel revenue for the last two weeks (needs KV)
+async function runPixelSnapshot(env: Env, now: Date, loadOptions: LoadOptions = {}): Promise<void> {
+  if (!env.MARKETING_CACHE) return;
+  const dataSet = await loadAllMarketingData(createDataSource(env), await loadShopRegistry(env), {
+    ...loadOptions,
+    ranges: [getPixelSnapshotWindow(getDataDate(now))],
+  });
+  const snapshot = takePixelSnapshot(dataSet.data, dataSet.asOf);
+  await savePixelSnapshot(env.MARKETING_CACHE, snapshot);
+  console.log(`Pixel snapshot ${snapshot.date}: ${Object.keys(snapshot.pixelRevenue).length} market(s)`);
+}
 
-  for (let monthsAgo = 1; monthsAgo <= 3; monthsAgo++) {
-    let month = currentMonth - monthsAgo;
-    let year = currentYear;
+// =============================================================================
+// SCHEDULED RUNS
+// =============================================================================
 
-    if (month < 0) {
-      month += 12;
-      year -= 1;
-    }
+type ReportKind = 'daily' | 'weekly' | 'monthly' | 'season';
+
+// Cron triggers (must match wrangler.toml exactly). The first hour is the regular run; later
+// hours are retries that only post if an earlier run was held back because data wasn't synced.
+const REPORT_SCHEDULES: Array<{ cron: string; kind: ReportKind; firstHour: number; lastHour: number }> = [
+  { cron: '0 7-9 * * TUE-FRI', kind: 'daily', firstHour: 7, lastHour: 9 },
+  { cron: '0 7-9 * * MON', kind: 'weekly', firstHour: 7, lastHour: 9 },
+  { cron: '0 8-10 1 * *', kind: 'monthly', firstHour: 8, lastHour: 10 },
+  { cron: '0 7-9 * 10-12 MON', kind: 'season', firstHour: 7, lastHour: 9 },
+  // Season close-out: the day before is Dec 31, so the report covers the whole season
+  { cron: '0 7-9 2 1 *', kind: 'season', firstHour: 7, lastHour: 9 },
+];
+
+const SEND_REPORT: Record<ReportKind, typeof sendDailyReport> = {
+  daily: sendDailyReport,
+  weekly: sendWeeklyReport,
+  monthly: sendMonthlyReport,
+  season: sendSeasonReport,
+};
 
-    const period = getMonthPeriod(month + 1, year);
-    const yoy = getSameMonthLastYear(period.start);
-
-    const monthCountries = getAllCountryMetrics(allData, period.start, period.end, yoy.start, yoy.end, true);
-    const monthWeighted = calculateWeightedTotals(monthCountries);
-
-    trend.push({
-      period: getMonthName(month + 1),
-      revenue: monthWeighted.totalRevenue,
-      spend: monthWeighted.totalSpend,
-      roas: monthWeighted.weightedROAS,
-      ncRoas: monthWeighted.weightedNCROAS,
-      ncPercent: monthWeighted.weightedNCPercent,
-      vsLY: getTotalPrevYearRevenue(monthCountries),
-    });
+const REPORT_SENT_TTL_SECONDS = 60 * 60 * 48;
+
+async function runScheduledReport(
+  env: Env,
+  schedule: (typeof REPORT_SCHEDULES)[number],
+  now: Date
+): Promise<void> {
+  const hour = now.getUTCHours();
+  const isFirstAttempt = hour <= schedule.firstHour;
+  const isLastAttempt = hour >= schedule.lastHour;
+  const state = env.MARKETING_CACHE;
+
+  // Without KV there's no record of earlier attempts, so only the regular run posts
+  if (!state && !isFirstAttempt) return;
+
+  const sentKey = `report-sent:${schedule.kind}:${now.toISOString().slice(0, 10)}`;
+  if (state && await state.get(sentKey)) {
+    console.log(`${schedule.kind} report already sent today — nothing to retry`);
+    return;
   }
 
-  const reportData: MonthlyReportData = {
-    month: new Date(monthPeriod.start + 'T00:00:00').getMonth() + 1,
-    year: new Date(monthPeriod.start + 'T00:00:00').getFullYear(),
-    countries,
-    totals: {
-      revenue: weighted.totalRevenue,
-      spend: weighted.totalSpend,
-      roas: weighted.weightedROAS,
-      ncRoas: weighted.weightedNCROAS,
-      ncPercent: weighted.weightedNCPercent,
-      orders: weighted.totalOrders,
-      aov: weighted.weightedAOV,
-      vsLY: getTotalPrevYearRevenue(countries),
-    },
-    trend,
-    noSpendCountries,
-  };
+  // Every destination skipped (webhook secret not set, unsupported currency): nothing is posted,
+  // so the report isn't marked sent and a later retry can still post it
+  const destinations = getSlackDestinations(env, await loadShopRegistry(env));
+  if (destinations.length === 0) {
+    console.error(`${schedule.kind} report not sent: no usable Slack destination`);
+    return;
+  }
 
-  const messages = generateMonthlyReport(reportData);
-  return new Response(blocksToText(messages), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+  if (!state) {
+    await SEND_REPORT[schedule.kind](env, destinations, now);
+    return;
+  }
+
+  // Retries reload from the sheet so a sync that landed since the last run is picked up
+  const sent = await SEND_REPORT[schedule.kind](env, destinations, now, { refresh: !isFirstAttempt }, !isLastAttempt);
+  if (sent) {
+    await state.put(sentKey, now.toISOString(), { expirationTtl: REPORT_SENT_TTL_SECONDS });
+  }
 }
 
 // =============================================================================
@@ -528,49 +1153,78 @@ export default {
       return handleMCPRequest(request, env);
     }
 
-    // Preview endpoints
-    if (url.pathname === '/preview-daily') return await previewDailyReport(env);
-    if (url.pathname === '/preview-weekly') return await previewWeeklyReport(env);
-    if (url.pathname === '/preview-monthly') return await previewMonthlyReport(env);
+    // Preview endpoints (?date=YYYY-MM-DD renders as if run that day, ?refresh=1 bypasses the cache,
+    // ?currency=EUR / ?local=1 / ?fx=constant / ?vat=ex change how amounts are shown)
+    const reportDate = getReportDate(url);
+    const loadOptions: LoadOptions = { refresh: url.searchParams.get('refresh') === '1' };
+    // Report currencies come from the registry, so a market added through an override can be reported in its currency
+    const shops = await loadShopRegistry(env);
+    const currencyParam = url.searchParams.get('currency');
+    if (currencyParam && !normalizeCurrency(currencyParam, shops)) {
+      return new Response(`Unsupported currency "${currencyParam}". Supported: ${getSupportedCurrencies(shops).join(', ')}`, { status: 400 });
+    }
+    const reportOptions = getReportOptions(env, shops, url);
+    if (url.pathname === '/preview-daily') return await previewDailyReport(env, reportDate, loadOptions, reportOptions);
+    if (url.pathname === '/preview-weekly') return await previewWeeklyReport(env, reportDate, loadOptions, reportOptions);
+    if (url.pathname === '/preview-monthly') return await previewMonthlyReport(env, reportDate, loadOptions, reportOptions);
+    if (url.pathname === '/preview-season') return await previewSeasonReport(env, reportDate, loadOptions, reportOptions);
+    if (url.pathname === '/data-quality') return await dataQualityReport(env, url, loadOptions);
+    if (url.pathname === '/tracking-health') return await trackingHealthReport(env, reportDate, loadOptions);
+    if (url.pathname === '/pixel-lag') return await pixelLagReport(env, reportDate);
 
     // Send test endpoints (uses test webhook)
     if (url.pathname === '/send-daily') {
-      await sendDailyReport(env, env.SLACK_WEBHOOK_URL_MARKETING_TEST);
+      await sendDailyReport(env, [getTestDestination(env, shops, url)], reportDate, loadOptions);
       return new Response('Daily report sent to test channel!', { status: 200 });
     }
     if (url.pathname === '/send-weekly') {
-      await sendWeeklyReport(env, env.SLACK_WEBHOOK_URL_MARKETING_TEST);
+      await sendWeeklyReport(env, [getTestDestination(env, shops, url)], reportDate, loadOptions);
       return new Response('Weekly report sent to test channel!', { status: 200 });
     }
     if (url.pathname === '/send-monthly') {
-      await sendMonthlyReport(env, env.SLACK_WEBHOOK_URL_MARKETING_TEST);
+      await sendMonthlyReport(env, [getTestDestination(env, shops, url)], reportDate, loadOptions);
       return new Response('Monthly report sent to test channel!', { status: 200 });
     }
+    if (url.pathname === '/send-season') {
+      await sendSeasonReport(env, [getTestDestination(env, shops, url)], reportDate, loadOptions);
+      return new Response('Season report sent to test channel!', { status: 200 });
+    }
 
     return new Response('Marketing Slack Bot', { status: 200 });
   },
 
   async scheduled(event: ScheduledEvent, env: Env): Promise<void> {
     const now = new Date();
-    const dayOfWeek = now.getDay(); // 0=Sun, 1=Mon, ...
-    const dayOfMonth = now.getDate();
-    const hour = now.getUTCHours();
+    console.log(`Cron triggered: "${event.cron}" at ${now.toISOString()} (hour=${now.getUTCHours()})`);
 
-    console.log(`Cron triggered: ${now.toISOString()} (day=${dayOfWeek}, hour=${hour})`);
+    // One pixel snapshot a day feeds the lag model behind the weekly "est. final" pixel ROAS
+    if (event.cron === PIXEL_SNAPSHOT_CRON) {
+      await runPixelSnapshot(env, now);
+      return;
+    }
 
-    // Daily: Tue-Fri 07:00 UTC
-    if (dayOfWeek >= 2 && dayOfWeek <= 5 && hour === 7) {
-      await sendDailyReport(env);
+    const schedule = REPORT_SCHEDULES.find(s => s.cron === event.cron);
+    if (!schedule) {
+      console.error(`No report configured for cron "${event.cron}"`);
+      return;
     }
 
-    // Weekly: Mon 07:00 UTC
-    if (dayOfWeek === 1 && hour === 7) {
-      await sendWeeklyReport(env);
+    // The report and the tracking health check fail independently: alerts still go out when the
+    // report can't be built, and a failed check doesn't affect the report
+    try {
+      await runScheduledReport(env, schedule, now);
+    } catch (error) {
+      console.error(`Scheduled ${schedule.kind} report failed:`, error);
     }
 
-    // Monthly: 1st of month 08:00 UTC
-    if (dayOfMonth === 1 && hour === 8) {
-      await sendMonthlyReport(env);
+    // Tracking health runs with every report cron, after the report; the season report shares
+    // its Monday runs with the weekly one, which already checks
+    if (schedule.kind === 'season') return;
+    const isFirstAttempt = now.getUTCHours() <= schedule.firstHour;
+    try {
+      await runHealthCheck(env, now, isFirstAttempt);
+    } catch (error) {
+      console.error('Tracking health check failed:', error);
     }
   },
 };
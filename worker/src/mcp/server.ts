@@ -1,5 +1,6 @@
 import type { Env } from '../types';
-import { MCP_TOOLS, handleToolCall } from './tools';
+import { getMcpTools, handleToolCall } from './tools';
+import { loadShopRegistry } from '../shops';
 
 interface MCPRequest {
   jsonrpc: '2.0';
@@ -192,7 +193,7 @@ async function processRequest(
       return {
         jsonrpc: '2.0',
         id,
-        result: { tools: MCP_TOOLS },
+        result: { tools: getMcpTools(await loadShopRegistry(env)) },
       };
 
     case 'tools/call': {
@@ -207,7 +208,8 @@ async function processRequest(
         };
       }
 
-      const tool = MCP_TOOLS.find(t => t.name === toolName);
+      const registry = await loadShopRegistry(env);
+      const tool = getMcpTools(registry).find(t => t.name === toolName);
       if (!tool) {
         return {
           jsonrpc: '2.0',
@@ -217,7 +219,7 @@ async function processRequest(
       }
 
       try {
-        const result = await handleToolCall(toolName, toolArgs, env);
+        const result = await handleToolCall(toolName, toolArgs, env, registry);
         return { jsonrpc: '2.0', id, result };
       } catch (error) {
         return {
@@ -1,47 +1,129 @@
-import type { Env, MCPToolDefinition, MCPResponse } from '../types';
-import { SHOPS } from '../shops';
-import { loadAllShopData, getMetricsForPeriod, ServiceAccountCredentials } from '../sheets';
-
-const ALL_SHOP_CODES = ['NO', 'SE', 'DK', 'FI', 'UK', 'DE', 'NL', 'COM'];
-
-export const MCP_TOOLS: MCPToolDefinition[] = [
-  {
-    name: 'get_marketing_data',
-    description:
-      'Get daily marketing data from Google Sheets for SillySanta stores. Returns raw daily rows with revenue, spend, orders, and per-channel (Meta, Google, TikTok) breakdowns. Data available from 2024-02-01 (UK from 2024-09-01). Use this to analyze ROAS, compare periods (e.g. Black Friday YoY), track trends, etc. Max 400 days per request.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        start_date: {
-          type: 'string',
-          description: 'Start date in YYYY-MM-DD format (inclusive)',
-        },
-        end_date: {
-          type: 'string',
-          description: 'End date in YYYY-MM-DD format (inclusive)',
-        },
-        shops: {
-          type: 'array',
-          items: {
+import type { Env, MCPToolDefinition, MCPResponse, YoYAlignment } from '../types';
+import { Shop, getVatRate } from '../shops';
+import { getMetricsForPeriod } from '../sheets';
+import { createDataSource } from '../datasource';
+import { getShopGroups, UNGROUPED } from '../groups';
+import { METRICS, aggregatePeriodMetrics, calculateMetric, getChannelNcOrders } from '../metrics';
+import { getYoYDay, YOY_ALIGNMENTS } from '../triplewhale';
+import { MarketingDailyMetrics } from '../sheets';
+import { convertAmounts, getConversionRate, getRateToNOK, getSupportedCurrencies, normalizeCurrency } from '../fx';
+import { withConfigTargets } from '../targets';
+
+function getFirstLaunchDate(shops: Shop[]): string {
+  return shops.reduce((min, s) => (s.launchDate < min ? s.launchDate : min), shops[0].launchDate);
+}
+
+// "from 2024-02-01 (UK from 2024-09-01)" — earliest launch, plus shops that launched later
+function describeDataAvailability(shops: Shop[]): string {
+  const first = getFirstLaunchDate(shops);
+  const later = shops.filter(s => s.launchDate > first).map(s => `${s.code} from ${s.launchDate}`);
+  return later.length > 0 ? `from ${first} (${later.join(', ')})` : `from ${first}`;
+}
+
+// Data caveats from the registry for the requested shops: late launches, notes, paused shops
+function getShopNotes(registry: Shop[], shopCodes: string[]): string[] {
+  const first = getFirstLaunchDate(registry);
+  const notes: string[] = [];
+  for (const shop of registry.filter(s => shopCodes.includes(s.code))) {
+    if (shop.launchDate > first) notes.push(`${shop.code} data available from ${shop.launchDate}.`);
+    if (shop.dataNote) notes.push(`${shop.code}: ${shop.dataNote}.`);
+    if (!shop.active) notes.push(`${shop.code} is paused (no spend expected).`);
+  }
+  return notes;
+}
+
+/**
+ * Tool definitions for a shop registry (shop enum and data caveats come from the registry)
+ * @param shops Shop registry
+ */
+export function getMcpTools(shops: Shop[]): MCPToolDefinition[] {
+  const shopCodes = shops.map(s => s.code);
+
+  return [
+    {
+      name: 'get_marketing_data',
+      description:
+        `Get daily marketing data from Google Sheets for SillySanta stores. Returns raw daily rows with revenue, spend, orders, and per-channel breakdowns (<channel>_spend, <channel>_pixel_revenue, <channel>_channel_revenue, <channel>_pixel_nc_revenue and, where the sheet has it, <channel>_pixel_nc_orders for every channel in the sheet, e.g. meta, google, tiktok), plus daily subtotals per market group (${[...new Set(getShopGroups(shops).values())].join(', ')}) and each market's monthly spend budget and MER/aMER/CAC targets for the months in the range. Data available ${describeDataAvailability(shops)}. Use this to analyze ROAS, compare periods (e.g. Black Friday YoY), track trends, etc. Max 400 days per request.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start_date: {
+            type: 'string',
+            description: 'Start date in YYYY-MM-DD format (inclusive)',
+          },
+          end_date: {
+            type: 'string',
+            description: 'End date in YYYY-MM-DD format (inclusive)',
+          },
+          shops: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: shopCodes,
+            },
+            description: `Country codes to include. Default: all ${shopCodes.length} (${shopCodes.join(', ')})`,
+          },
+          currency: {
+            type: 'string',
+            enum: getSupportedCurrencies(shops),
+            description: 'Convert all amounts to this currency at each day\'s FX rate. Default: each shop\'s local currency',
+          },
+          yoy_alignment: {
             type: 'string',
-            enum: ALL_SHOP_CODES,
+            enum: YOY_ALIGNMENTS,
+            description: 'Which days last year summary.yoy compares with: weekday = 364 days earlier (same weekdays), calendar = same dates. Default: weekday',
+          },
+          refresh: {
+            type: 'boolean',
+            description: 'Bypass the cache and reload from Google Sheets. Default: false',
           },
-          description: 'Country codes to include. Default: all 8 (NO, SE, DK, FI, UK, DE, NL, COM)',
         },
+        required: ['start_date', 'end_date'],
       },
-      required: ['start_date', 'end_date'],
     },
-  },
-];
+  ];
+}
+
+// Acquisition figures for a shop's rows (blended CAC, returning revenue, NC-CPA per channel)
+function getAcquisitionSummary(rows: MarketingDailyMetrics[]) {
+  const period = aggregatePeriodMetrics(rows);
+  const ncAov = period.newCustomerOrders > 0 ? period.ncRevenue / period.newCustomerOrders : null;
+  return {
+    new_customer_orders: period.newCustomerOrders,
+    nc_revenue: period.ncRevenue,
+    blended_cac: calculateMetric('blendedCac', period),
+    returning_revenue: calculateMetric('returningRevenue', period),
+    returning_share: calculateMetric('returningShare', period),
+    channels: Object.fromEntries(
+      Object.entries(period.channels).map(([channel, totals]) => {
+        const { ncOrders, estimated } = getChannelNcOrders(totals, ncAov);
+        return [channel, {
+          nc_orders: ncOrders,
+          nc_orders_estimated: estimated,
+          nc_cpa: calculateMetric('ncCpa', { ...period, spend: totals.spend, newCustomerOrders: ncOrders }),
+        }];
+      })
+    ),
+  };
+}
+
+interface GroupTotalRow {
+  date: string;
+  order_revenue: number;
+  spend: number;
+  orders: number;
+  new_customer_orders: number;
+}
 
 export async function handleToolCall(
   toolName: string,
   args: Record<string, unknown>,
-  env: Env
+  env: Env,
+  registry: Shop[]
 ): Promise<MCPResponse> {
   switch (toolName) {
     case 'get_marketing_data':
-      return await handleGetMarketingData(args, env);
+      return await handleGetMarketingData(args, env, registry);
     default:
       return {
         content: [{ type: 'text', text: `Unknown tool: ${toolName}` }],
@@ -52,11 +134,16 @@ export async function handleToolCall(
 
 async function handleGetMarketingData(
   args: Record<string, unknown>,
-  env: Env
+  env: Env,
+  registry: Shop[]
 ): Promise<MCPResponse> {
+  const allShopCodes = registry.map(s => s.code);
   const startDate = args.start_date as string;
   const endDate = args.end_date as string;
-  const shops = (args.shops as string[] | undefined) ?? ALL_SHOP_CODES;
+  const shops = (args.shops as string[] | undefined) ?? allShopCodes;
+  const refresh = args.refresh === true;
+  const currency = args.currency === undefined ? null : normalizeCurrency(args.currency as string, registry);
+  const yoyAlignment = YOY_ALIGNMENTS.find(a => a === args.yoy_alignment) ?? null;
 
   // Validate dates
   if (!startDate || !endDate) {
@@ -89,74 +176,168 @@ async function handleGetMarketingData(
     };
   }
 
+  if (args.currency !== undefined && !currency) {
+    return {
+      content: [{ type: 'text', text: `Error: unsupported currency "${args.currency}". Valid: ${getSupportedCurrencies(registry).join(', ')}` }],
+      isError: true,
+    };
+  }
+
+  if (args.yoy_alignment !== undefined && !yoyAlignment) {
+    return {
+      content: [{ type: 'text', text: `Error: unsupported yoy_alignment "${args.yoy_alignment}". Valid: ${YOY_ALIGNMENTS.join(', ')}` }],
+      isError: true,
+    };
+  }
+
   // Validate shop codes
-  const invalidShops = shops.filter(s => !ALL_SHOP_CODES.includes(s));
+  const invalidShops = shops.filter(s => !allShopCodes.includes(s));
   if (invalidShops.length > 0) {
     return {
-      content: [{ type: 'text', text: `Error: invalid shop codes: ${invalidShops.join(', ')}. Valid: ${ALL_SHOP_CODES.join(', ')}` }],
+      content: [{ type: 'text', text: `Error: invalid shop codes: ${invalidShops.join(', ')}. Valid: ${allShopCodes.join(', ')}` }],
       isError: true,
     };
   }
 
   try {
-    // Load data from Google Sheets
-    const creds: ServiceAccountCredentials = JSON.parse(env.GOOGLE_SERVICE_ACCOUNT);
-    const allData = await loadAllShopData(creds, shops);
+    // Load data from the configured source (Google Sheets or fixtures), plus last year for the summary YoY
+    const alignment: YoYAlignment = yoyAlignment ?? 'weekday';
+    const yoyStart = getYoYDay(startDate, alignment);
+    const yoyEnd = getYoYDay(endDate, alignment);
+    const source = createDataSource(env);
+    const [{ data: allData, asOf }, fxRates, targets] = await Promise.all([
+      source.loadShopData(shops, {
+        refresh,
+        ranges: [{ start: startDate, end: endDate }, { start: yoyStart, end: yoyEnd }],
+      }),
+      source.loadFxRates({ refresh }),
+      source.loadTargets({ refresh }),
+    ]);
 
     // Build response
     const shopMetadata: Record<string, object> = {};
     const dataByShop: Record<string, object[]> = {};
+    const summaryByShop: Record<string, object> = {};
+    const targetsByShop: Record<string, object[]> = {};
     let totalRows = 0;
 
+    // Daily subtotals per market group, in one currency (mixed local currencies can't be summed)
+    const groupCurrency = currency ?? 'NOK';
+    const shopGroups = getShopGroups(registry);
+    const groupTotals: Record<string, { shops: string[]; rows: Map<string, GroupTotalRow> }> = {};
+
     for (const shopCode of shops) {
-      const shop = SHOPS.find(s => s.code === shopCode);
+      const shop = registry.find(s => s.code === shopCode);
       if (!shop) continue;
 
       const shopData = allData.get(shopCode) ?? [];
-      const periodData = getMetricsForPeriod(shopData, startDate, endDate);
+      const localData = getMetricsForPeriod(shopData, startDate, endDate);
+      const fxRateFor = (date: string) => getConversionRate(fxRates, shop.currency, currency ?? shop.currency, date, registry);
+      const periodData = currency ? convertAmounts(localData, fxRateFor) : localData;
 
       shopMetadata[shopCode] = {
         name: shop.name,
-        currency: shop.currency,
+        currency: currency ?? shop.currency,
+        local_currency: shop.currency,
         exchange_rate_to_nok: shop.exchangeRateToNOK,
+        group: shopGroups.get(shopCode),
         vat_rate: shop.vatRate,
+        launch_date: shop.launchDate,
+        active: shop.active,
+        ...(shop.owner && { owner: shop.owner }),
+        ...(shop.slackHandle && { slack_handle: shop.slackHandle }),
       };
 
-      dataByShop[shopCode] = periodData.map(day => ({
-        date: day.date,
-        order_revenue: day.orderRevenue,
-        spend: day.spend,
-        orders: day.orders,
-        new_customer_orders: day.newCustomerOrders,
-        meta_spend: day.metaSpend,
-        meta_pixel_revenue: day.metaPixelRevenue,
-        meta_channel_revenue: day.metaChannelRevenue,
-        meta_pixel_nc_revenue: day.metaPixelNcRevenue,
-        google_spend: day.googleSpend,
-        google_pixel_revenue: day.googlePixelRevenue,
-        google_channel_revenue: day.googleChannelRevenue,
-        google_pixel_nc_revenue: day.googlePixelNcRevenue,
-        tiktok_spend: day.tiktokSpend,
-        tiktok_pixel_revenue: day.tiktokPixelRevenue,
-        tiktok_channel_revenue: day.tiktokChannelRevenue,
-        tiktok_pixel_nc_revenue: day.tiktokPixelNcRevenue,
-      }));
+      // Channel columns are flattened back to their sheet names (meta_spend, pinterest_pixel_revenue, ...)
+      dataByShop[shopCode] = periodData.map(day => {
+        const row: Record<string, string | number> = {
+          date: day.date,
+          fx_rate_to_nok: getRateToNOK(fxRates, shop.currency, day.date, registry),
+          vat_rate: getVatRate(shop, day.date),
+          ...(currency && { fx_rate: fxRateFor(day.date) }),
+          order_revenue: day.orderRevenue,
+          spend: day.spend,
+          orders: day.orders,
+          new_customer_orders: day.newCustomerOrders,
+        };
+        for (const [channel, values] of Object.entries(day.channels)) {
+          row[`${channel}_spend`] = values.spend;
+          row[`${channel}_pixel_revenue`] = values.pixelRevenue;
+          row[`${channel}_channel_revenue`] = values.channelRevenue;
+          row[`${channel}_pixel_nc_revenue`] = values.pixelNcRevenue;
+          if (values.pixelNcOrders !== null) row[`${channel}_pixel_nc_orders`] = values.pixelNcOrders;
+        }
+        return row;
+      });
 
       totalRows += dataByShop[shopCode].length;
+
+      const yoyLocal = getMetricsForPeriod(shopData, yoyStart, yoyEnd);
+      summaryByShop[shopCode] = {
+        ...getAcquisitionSummary(periodData),
+        yoy: yoyLocal.length > 0
+          ? getAcquisitionSummary(currency ? convertAmounts(yoyLocal, fxRateFor) : yoyLocal)
+          : null,
+      };
+
+      // Targets for the months the range touches, in local currency (like the Targets tab)
+      targetsByShop[shopCode] = withConfigTargets(targets)
+        .filter(t => t.shopCode === shopCode && t.month >= startDate.slice(0, 7) && t.month <= endDate.slice(0, 7))
+        .map(t => ({
+          month: t.month,
+          spend_budget: t.spendBudget,
+          mer_target: t.mer,
+          amer_target: t.amer,
+          cac_target: t.cac,
+        }));
+
+      const groupName = shopGroups.get(shopCode) ?? UNGROUPED;
+      const group = groupTotals[groupName] ??= { shops: [], rows: new Map() };
+      group.shops.push(shopCode);
+      for (const day of localData) {
+        const rate = getConversionRate(fxRates, shop.currency, groupCurrency, day.date, registry);
+        const row = group.rows.get(day.date) ?? { date: day.date, order_revenue: 0, spend: 0, orders: 0, new_customer_orders: 0 };
+        row.order_revenue += day.orderRevenue * rate;
+        row.spend += day.spend * rate;
+        row.orders += day.orders;
+        row.new_customer_orders += day.newCustomerOrders;
+        group.rows.set(day.date, row);
+      }
     }
 
     const response = {
-      query: { start_date: startDate, end_date: endDate, shops },
+      query: { start_date: startDate, end_date: endDate, shops, currency, yoy_alignment: alignment },
+      data_as_of: asOf.toISOString(),
       shops: shopMetadata,
       data: dataByShop,
+      summary: summaryByShop,
+      targets: targetsByShop,
+      group_totals: Object.fromEntries(
+        Object.entries(groupTotals).map(([name, group]) => [name, {
+          shops: group.shops,
+          currency: groupCurrency,
+          rows: [...group.rows.values()].sort((a, b) => a.date.localeCompare(b.date)),
+        }])
+      ),
       notes: [
-        'Revenue figures are VAT-inclusive (gross). Divide by (1 + vat_rate) for ex-VAT revenue.',
+        'Revenue figures are VAT-inclusive (gross). Divide by (1 + vat_rate) on each row (the rate in force that day) for ex-VAT revenue.',
         'Spend is always ex-VAT.',
-        'All values are in each shop\'s local currency. Use exchange_rate_to_nok to convert to NOK.',
-        'UK data available from 2024-09-01. COM data sparse before 2024-06-01.',
+        currency
+          ? `All values are converted to ${currency} at each day's rate (fx_rate = ${currency} per unit of local_currency). fx_rate_to_nok is that day's local-currency rate to NOK.`
+          : 'All values are in each shop\'s local currency. Multiply by fx_rate_to_nok (that day\'s rate) to convert to NOK; exchange_rate_to_nok is the static fallback rate.',
+        ...getShopNotes(registry, shops),
+        `group_totals sums each market group's shops per day in ${groupCurrency} (revenue and spend at that day's rate).`,
+        `summary has each shop's blended CAC, returning revenue and share, and NC orders + NC-CPA per channel for the whole range; summary.yoy is the same for ${yoyStart} to ${yoyEnd} (${alignment === 'weekday' ? 'same weekdays, 364 days earlier' : 'same calendar dates'}). nc_orders_estimated = true where the sheet has no <channel>_pixel_nc_orders column (channel NC revenue ÷ the shop's NC AOV). returning_revenue (and returning_share) is a pixel-based estimate: revenue − nc_revenue, the channels' pixel-tracked new customer revenue; new customers the pixel misses count as returning, so it runs high.`,
+        'targets has each shop\'s monthly plan: spend_budget and cac_target in the shop\'s local currency (not converted), mer_target and amer_target on VAT-inclusive revenue. null = no target set. Compare a month-to-date spend with spend_budget × days elapsed ÷ days in month.',
         'Pixel data may be incomplete for the most recent 1-3 days.',
-        'Key formulas: ROAS = revenue/spend, Pixel ROAS = channel_pixel_revenue/channel_spend, Channel ROAS = channel_channel_revenue/channel_spend, NC ROAS = channel_pixel_nc_revenue/channel_spend, NC% = new_customer_orders/orders*100, AOV = revenue/orders, MER = revenue/total_spend',
+        `Key formulas: ${Object.values(METRICS).map(m => `${m.label} = ${m.formula}`).join(', ')}. Per channel: Pixel ROAS = channel_pixel_revenue/channel_spend, Channel ROAS = channel_channel_revenue/channel_spend, NC ROAS = channel_pixel_nc_revenue/channel_spend, NC-CPA = channel_spend/channel_pixel_nc_orders.`,
       ],
+      metric_definitions: Object.values(METRICS).map(m => ({
+        id: m.id,
+        label: m.label,
+        formula: m.formula,
+        higher_is_better: m.higherIsBetter,
+      })),
       rows_returned: totalRows,
       date_range_days: daySpan,
     };
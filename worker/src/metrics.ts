@@ -1,5 +1,92 @@
 import { MarketingDailyMetrics } from './sheets';
-import { PeriodMarketingMetrics, Channel, ChannelMetrics } from './types';
+import { PeriodMarketingMetrics, ChannelMetrics, ChannelTotals, MetricId, MetricInputs } from './types';
+import { emptyChannelTotals, getChannelName } from './channels';
+
+// =============================================================================
+// METRIC REGISTRY
+// =============================================================================
+
+export type MetricFormat = 'amount' | 'ratio' | 'percent' | 'count';
+
+export interface MetricDefinition {
+  id: MetricId;
+  label: string;                // Column header
+  formula: string;              // Definition shown to readers (README, MCP notes)
+  format: MetricFormat;
+  higherIsBetter: boolean | null;  // null = neither (e.g. spend)
+  calculate: (inputs: MetricInputs) => number | null;  // null when the denominator is 0
+}
+
+function divide(numerator: number, denominator: number, scale: number = 1): number | null {
+  return denominator > 0 ? (numerator / denominator) * scale : null;
+}
+
+/**
+ * Every store-level metric the reports and the MCP tool show. Row objects (country metrics,
+ * totals, trend rows) store each value under its metric id, so a metric means the same
+ * thing everywhere it appears.
+ */
+export const METRICS: Record<MetricId, MetricDefinition> = {
+  revenue: {
+    id: 'revenue', label: 'Revenue', formula: 'order revenue (before refunds)',
+    format: 'amount', higherIsBetter: true, calculate: m => m.revenue,
+  },
+  spend: {
+    id: 'spend', label: 'Spend', formula: 'ad spend across all channels',
+    format: 'amount', higherIsBetter: null, calculate: m => m.spend,
+  },
+  orders: {
+    id: 'orders', label: 'Orders', formula: 'orders',
+    format: 'count', higherIsBetter: true, calculate: m => m.orders,
+  },
+  aov: {
+    id: 'aov', label: 'AOV', formula: 'revenue / orders',
+    format: 'amount', higherIsBetter: true, calculate: m => divide(m.revenue, m.orders),
+  },
+  mer: {
+    id: 'mer', label: 'MER', formula: 'revenue / spend',
+    format: 'ratio', higherIsBetter: true, calculate: m => divide(m.revenue, m.spend),
+  },
+  cos: {
+    id: 'cos', label: 'CoS', formula: 'spend / revenue × 100',
+    format: 'percent', higherIsBetter: false, calculate: m => divide(m.spend, m.revenue, 100),
+  },
+  amer: {
+    id: 'amer', label: 'aMER', formula: 'new customer revenue (pixel) / spend',
+    format: 'ratio', higherIsBetter: true, calculate: m => divide(m.ncRevenue, m.spend),
+  },
+  ncPercent: {
+    id: 'ncPercent', label: 'NC%', formula: 'new customer orders / orders × 100',
+    format: 'percent', higherIsBetter: true, calculate: m => divide(m.newCustomerOrders, m.orders, 100),
+  },
+  ncCpa: {
+    id: 'ncCpa', label: 'NC-CPA', formula: 'channel spend / channel new customer orders',
+    format: 'amount', higherIsBetter: false, calculate: m => divide(m.spend, m.newCustomerOrders),
+  },
+  blendedCac: {
+    id: 'blendedCac', label: 'CAC', formula: 'spend / new customer orders (all channels)',
+    format: 'amount', higherIsBetter: false, calculate: m => divide(m.spend, m.newCustomerOrders),
+  },
+  returningRevenue: {
+    id: 'returningRevenue', label: 'Returning*',
+    formula: 'revenue − new customer revenue (pixel); a pixel-based estimate, high where the pixel misses new customers',
+    format: 'amount', higherIsBetter: true, calculate: m => Math.max(0, m.revenue - m.ncRevenue),
+  },
+  returningShare: {
+    id: 'returningShare', label: 'Ret%*', formula: 'returning revenue (pixel-based estimate) / revenue × 100',
+    format: 'percent', higherIsBetter: null, calculate: m => divide(Math.max(0, m.revenue - m.ncRevenue), m.revenue, 100),
+  },
+};
+
+/**
+ * Calculate a registry metric
+ * @param id Metric id
+ * @param inputs Summed amounts
+ * @returns Value, or null when the denominator is 0
+ */
+export function calculateMetric(id: MetricId, inputs: MetricInputs): number | null {
+  return METRICS[id].calculate(inputs);
+}
 
 // =============================================================================
 // PERIOD AGGREGATION
@@ -17,21 +104,12 @@ export function aggregatePeriodMetrics(dailyMetrics: MarketingDailyMetrics[]): P
       spend: 0,
       orders: 0,
       newCustomerOrders: 0,
+      ncRevenue: 0,
       mer: null,
+      cos: null,
       ncPercent: null,
       aov: null,
-      metaSpend: 0,
-      metaPixelRevenue: 0,
-      metaChannelRevenue: 0,
-      metaPixelNcRevenue: 0,
-      googleSpend: 0,
-      googlePixelRevenue: 0,
-      googleChannelRevenue: 0,
-      googlePixelNcRevenue: 0,
-      tiktokSpend: 0,
-      tiktokPixelRevenue: 0,
-      tiktokChannelRevenue: 0,
-      tiktokPixelNcRevenue: 0,
+      channels: {},
       daysWithData: 0,
     };
   }
@@ -40,21 +118,8 @@ export function aggregatePeriodMetrics(dailyMetrics: MarketingDailyMetrics[]): P
   let spend = 0;
   let orders = 0;
   let newCustomerOrders = 0;
-
-  let metaSpend = 0;
-  let metaPixelRevenue = 0;
-  let metaChannelRevenue = 0;
-  let metaPixelNcRevenue = 0;
-
-  let googleSpend = 0;
-  let googlePixelRevenue = 0;
-  let googleChannelRevenue = 0;
-  let googlePixelNcRevenue = 0;
-
-  let tiktokSpend = 0;
-  let tiktokPixelRevenue = 0;
-  let tiktokChannelRevenue = 0;
-  let tiktokPixelNcRevenue = 0;
+  let ncRevenue = 0;
+  const channels: Record<string, ChannelTotals> = {};
 
   for (const day of dailyMetrics) {
     revenue += day.orderRevenue;
@@ -62,42 +127,32 @@ export function aggregatePeriodMetrics(dailyMetrics: MarketingDailyMetrics[]): P
     orders += day.orders;
     newCustomerOrders += day.newCustomerOrders;
 
-    metaSpend += day.metaSpend;
-    metaPixelRevenue += day.metaPixelRevenue;
-    metaChannelRevenue += day.metaChannelRevenue;
-    metaPixelNcRevenue += day.metaPixelNcRevenue;
-
-    googleSpend += day.googleSpend;
-    googlePixelRevenue += day.googlePixelRevenue;
-    googleChannelRevenue += day.googleChannelRevenue;
-    googlePixelNcRevenue += day.googlePixelNcRevenue;
-
-    tiktokSpend += day.tiktokSpend;
-    tiktokPixelRevenue += day.tiktokPixelRevenue;
-    tiktokChannelRevenue += day.tiktokChannelRevenue;
-    tiktokPixelNcRevenue += day.tiktokPixelNcRevenue;
+    for (const [channel, values] of Object.entries(day.channels)) {
+      const totals = channels[channel] ??= emptyChannelTotals();
+      totals.spend += values.spend;
+      totals.pixelRevenue += values.pixelRevenue;
+      totals.channelRevenue += values.channelRevenue;
+      totals.pixelNcRevenue += values.pixelNcRevenue;
+      // Unknown for the period as soon as one day has no NC orders column
+      totals.pixelNcOrders = totals.pixelNcOrders === null || values.pixelNcOrders === null
+        ? null
+        : totals.pixelNcOrders + values.pixelNcOrders;
+      ncRevenue += values.pixelNcRevenue;
+    }
   }
 
+  const inputs: MetricInputs = { revenue, spend, orders, newCustomerOrders, ncRevenue };
   return {
     revenue,
     spend,
     orders,
     newCustomerOrders,
-    mer: revenue > 0 ? (spend / revenue) * 100 : null,
-    ncPercent: orders > 0 ? (newCustomerOrders / orders) * 100 : null,
-    aov: orders > 0 ? revenue / orders : null,
-    metaSpend,
-    metaPixelRevenue,
-    metaChannelRevenue,
-    metaPixelNcRevenue,
-    googleSpend,
-    googlePixelRevenue,
-    googleChannelRevenue,
-    googlePixelNcRevenue,
-    tiktokSpend,
-    tiktokPixelRevenue,
-    tiktokChannelRevenue,
-    tiktokPixelNcRevenue,
+    ncRevenue,
+    mer: calculateMetric('mer', inputs),
+    cos: calculateMetric('cos', inputs),
+    ncPercent: calculateMetric('ncPercent', inputs),
+    aov: calculateMetric('aov', inputs),
+    channels,
     daysWithData: dailyMetrics.length,
   };
 }
@@ -131,10 +186,25 @@ export function calculateChannelROAS(
   };
 }
 
+/**
+ * New customer orders for a channel
+ * Uses the pixel count from <channel>_pixel_nc_orders when the tab has it; otherwise estimates
+ * NC revenue ÷ NC AOV, where NC AOV is the store's pixel NC revenue per new customer order.
+ * @param totals Channel totals for the period
+ * @param ncAov Store NC AOV (null if the store had no new customer orders)
+ */
+export function getChannelNcOrders(
+  totals: ChannelTotals,
+  ncAov: number | null
+): { ncOrders: number; estimated: boolean } {
+  if (totals.pixelNcOrders !== null) return { ncOrders: totals.pixelNcOrders, estimated: false };
+  return { ncOrders: ncAov ? totals.pixelNcRevenue / ncAov : 0, estimated: true };
+}
+
 /**
  * Get channel metrics for a period
  * @param metrics Aggregated period metrics
- * @param includeNcOrders Include NC Orders in result (for monthly reports)
+ * @param includeNcOrders Include NC Orders + NC-CPA in result (weekly/monthly reports)
  * @returns Array of channel metrics (only channels with spend > 0)
  */
 export function getChannelMetrics(
@@ -142,71 +212,104 @@ export function getChannelMetrics(
   includeNcOrders: boolean = false
 ): ChannelMetrics[] {
   const channels: ChannelMetrics[] = [];
+  const ncAov = metrics.newCustomerOrders > 0 ? metrics.ncRevenue / metrics.newCustomerOrders : null;
 
-  // Meta
-  if (metrics.metaSpend > 0) {
-    const roas = calculateChannelROAS(
-      metrics.metaSpend,
-      metrics.metaPixelRevenue,
-      metrics.metaChannelRevenue,
-      metrics.metaPixelNcRevenue
-    );
-    channels.push({
-      channel: 'Meta',
-      spend: metrics.metaSpend,
-      pixelROAS: roas.pixelROAS,
-      channelROAS: roas.channelROAS,
-      ncROAS: roas.ncROAS,
-      ...(includeNcOrders && { ncOrders: 0 }), // TODO: Calculate from NC revenue / AOV
-    });
-  }
+  for (const [channel, totals] of Object.entries(metrics.channels)) {
+    if (totals.spend <= 0) continue;
 
-  // Google
-  if (metrics.googleSpend > 0) {
     const roas = calculateChannelROAS(
-      metrics.googleSpend,
-      metrics.googlePixelRevenue,
-      metrics.googleChannelRevenue,
-      metrics.googlePixelNcRevenue
+      totals.spend,
+      totals.pixelRevenue,
+      totals.channelRevenue,
+      totals.pixelNcRevenue
     );
-    channels.push({
-      channel: 'Google',
-      spend: metrics.googleSpend,
+    const metric: ChannelMetrics = {
+      channel: getChannelName(channel),
+      spend: totals.spend,
       pixelROAS: roas.pixelROAS,
       channelROAS: roas.channelROAS,
       ncROAS: roas.ncROAS,
-      ...(includeNcOrders && { ncOrders: 0 }),
-    });
-  }
+    };
 
-  // TikTok
-  if (metrics.tiktokSpend > 0) {
-    const roas = calculateChannelROAS(
-      metrics.tiktokSpend,
-      metrics.tiktokPixelRevenue,
-      metrics.tiktokChannelRevenue,
-      metrics.tiktokPixelNcRevenue
-    );
-    channels.push({
-      channel: 'TikTok',
-      spend: metrics.tiktokSpend,
-      pixelROAS: roas.pixelROAS,
-      channelROAS: roas.channelROAS,
-      ncROAS: roas.ncROAS,
-      ...(includeNcOrders && { ncOrders: 0 }),
-    });
+    if (includeNcOrders) {
+      const { ncOrders, estimated } = getChannelNcOrders(totals, ncAov);
+      metric.ncOrders = ncOrders;
+      metric.ncOrdersEstimated = estimated;
+      metric.ncCpa = calculateMetric('ncCpa', {
+        revenue: totals.pixelRevenue,
+        spend: totals.spend,
+        orders: 0, // Channel orders aren't tracked
+        newCustomerOrders: ncOrders,
+        ncRevenue: totals.pixelNcRevenue,
+      });
+    }
+
+    channels.push(metric);
   }
 
   return channels;
 }
 
 // =============================================================================
-// WEIGHTED AGGREGATION (multi-country totals)
+// POOLED AGGREGATION (multi-country totals)
+// =============================================================================
+
+/**
+ * Calculate totals across multiple countries from summed numerators and denominators
+ * Ratios come from the metric registry (MER = revenue / spend, aMER = NC revenue / spend, ...).
+ * @param countries Array of country metrics
+ * @returns Summed amounts and pooled ratios (0 when the denominator is 0)
+ */
+export function calculatePooledTotals(countries: MetricInputs[]): MetricInputs & {
+  mer: number;
+  amer: number;
+  ncPercent: number;
+  aov: number;
+  blendedCac: number | null;
+  returningRevenue: number;
+  returningShare: number | null;
+} {
+  const sums = sumMetricInputs(countries);
+
+  return {
+    ...sums,
+    mer: calculateMetric('mer', sums) ?? 0,
+    amer: calculateMetric('amer', sums) ?? 0,
+    ncPercent: calculateMetric('ncPercent', sums) ?? 0,
+    aov: calculateMetric('aov', sums) ?? 0,
+    blendedCac: calculateMetric('blendedCac', sums),
+    returningRevenue: calculateMetric('returningRevenue', sums) ?? 0,
+    returningShare: calculateMetric('returningShare', sums),
+  };
+}
+
+/**
+ * Sum the metric inputs of several rows
+ * @param rows Markets (or their previous-year sums)
+ * @returns Summed revenue, spend, orders, NC orders and NC revenue
+ */
+export function sumMetricInputs(rows: MetricInputs[]): MetricInputs {
+  const sums: MetricInputs = { revenue: 0, spend: 0, orders: 0, newCustomerOrders: 0, ncRevenue: 0 };
+
+  for (const row of rows) {
+    sums.revenue += row.revenue;
+    sums.spend += row.spend;
+    sums.orders += row.orders;
+    sums.newCustomerOrders += row.newCustomerOrders;
+    sums.ncRevenue += row.ncRevenue;
+  }
+
+  return sums;
+}
+
+// =============================================================================
+// WEIGHTED AGGREGATION (previous totals, kept for comparison)
 // =============================================================================
 
 /**
  * Calculate weighted totals across multiple countries
- * Weights ROAS, NC ROAS, NC%, and AOV by revenue
+ * Weights MER, aMER, NC%, and AOV by revenue. Reports use calculatePooledTotals;
+ * this is only shown next to it in the weighted-totals debug view.
  * @param countries Array of country metrics
  * @returns Weighted totals
  */
@@ -214,8 +317,8 @@ export function calculateWeightedTotals(
   countries: Array<{
     revenue: number;
     spend: number;
-    roas: number;
-    ncRoas: number;
+    mer: number;
+    amer: number;
     ncPercent: number;
     orders: number;
     aov: number;
@@ -223,8 +326,8 @@ export function calculateWeightedTotals(
 ): {
   totalRevenue: number;
   totalSpend: number;
-  weightedROAS: number;
-  weightedNCROAS: number;
+  weightedMER: number;
+  weightedAMER: number;
   weightedNCPercent: number;
   weightedAOV: number;
   totalOrders: number;
@@ -240,15 +343,15 @@ export function calculateWeightedTotals(
   }
 
   // Weight by revenue
-  let weightedROASSum = 0;
-  let weightedNCROASSum = 0;
+  let weightedMERSum = 0;
+  let weightedAMERSum = 0;
   let weightedNCPercentSum = 0;
   let weightedAOVSum = 0;
 
   for (const country of countries) {
     const weight = totalRevenue > 0 ? country.revenue / totalRevenue : 0;
-    weightedROASSum += country.roas * weight;
-    weightedNCROASSum += country.ncRoas * weight;
+    weightedMERSum += country.mer * weight;
+    weightedAMERSum += country.amer * weight;
     weightedNCPercentSum += country.ncPercent * weight;
     weightedAOVSum += country.aov * weight;
   }
@@ -256,8 +359,8 @@ export function calculateWeightedTotals(
   return {
     totalRevenue,
     totalSpend,
-    weightedROAS: weightedROASSum,
-    weightedNCROAS: weightedNCROASSum,
+    weightedMER: weightedMERSum,
+    weightedAMER: weightedAMERSum,
     weightedNCPercent: weightedNCPercentSum,
     weightedAOV: weightedAOVSum,
     totalOrders,
@@ -0,0 +1,5 @@
+// Fixture files are bundled as text (see [[rules]] in wrangler.toml)
+declare module '*.csv' {
+  const content: string;
+  export default content;
+}
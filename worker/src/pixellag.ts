@@ -0,0 +1,204 @@
+import { MarketingDailyMetrics } from './sheets';
+import { getYesterdayPeriod, shiftDate } from './triplewhale';
+import { DateRange, PixelLagModel, PixelSnapshot } from './types';
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+// Age at which a day's pixel revenue has mostly settled (the daily report's pixel block; 1 = yesterday)
+export const PIXEL_SETTLED_AGE = 3;
+
+// Pixel revenue keeps growing for days as late conversions are attributed. Each scheduled run
+// stores what the sheet reports for the last SNAPSHOT_MAX_AGE days, so the same day can be
+// compared across later loads.
+const SNAPSHOT_MAX_AGE = 14;
+
+// Snapshots kept (and read back) for the model
+const SNAPSHOT_HISTORY_DAYS = 56;
+
+const SNAPSHOT_TTL_SECONDS = 60 * 60 * 24 * (SNAPSHOT_HISTORY_DAYS + 1);
+
+// Bump when the snapshot shape changes so old entries are ignored instead of misread
+const SNAPSHOT_VERSION = 1;
+
+function snapshotKey(date: string): string {
+  return `pixel-snapshot:v${SNAPSHOT_VERSION}:${date}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to + 'T00:00:00Z') - Date.parse(from + 'T00:00:00Z')) / 86400000);
+}
+
+// Day the data was loaded (local date), which ages are counted from: yesterday is age 1
+export function getDataDate(asOf: Date): string {
+  return shiftDate(getYesterdayPeriod(asOf), 1);
+}
+
+/**
+ * Rows a snapshot records (range reads must include this)
+ * @param date Day the data is loaded (YYYY-MM-DD)
+ */
+export function getPixelSnapshotWindow(date: string): DateRange {
+  return { start: shiftDate(date, -SNAPSHOT_MAX_AGE), end: shiftDate(date, -1) };
+}
+
+/**
+ * Pixel revenue per shop, day and channel as loaded now (local currency, as synced)
+ * @param allData Map of shop code to daily metrics (must cover getPixelSnapshotWindow)
+ * @param asOf When the data was fetched from the source
+ */
+export function takePixelSnapshot(allData: Map<string, MarketingDailyMetrics[]>, asOf: Date): PixelSnapshot {
+  const date = getDataDate(asOf);
+  const window = getPixelSnapshotWindow(date);
+  const pixelRevenue: PixelSnapshot['pixelRevenue'] = {};
+
+  for (const [shopCode, rows] of allData) {
+    for (const row of rows) {
+      if (row.date < window.start || row.date > window.end) continue;
+      for (const [channel, totals] of Object.entries(row.channels)) {
+        if (totals.spend <= 0 && totals.pixelRevenue <= 0) continue;
+        ((pixelRevenue[shopCode] ??= {})[row.date] ??= {})[channel] = totals.pixelRevenue;
+      }
+    }
+  }
+
+  return { date, takenAt: asOf.toISOString(), pixelRevenue };
+}
+
+// Store a snapshot (one per day: a retry later the same day replaces the earlier one)
+export async function savePixelSnapshot(kv: KVNamespace, snapshot: PixelSnapshot): Promise<void> {
+  await kv.put(snapshotKey(snapshot.date), JSON.stringify(snapshot), { expirationTtl: SNAPSHOT_TTL_SECONDS });
+}
+
+/**
+ * Snapshots taken in the SNAPSHOT_HISTORY_DAYS days up to `date` (days without a run are missing)
+ * @param kv KV namespace the snapshots are stored in
+ * @param date Last snapshot day (YYYY-MM-DD)
+ */
+export async function loadPixelSnapshots(kv: KVNamespace, date: string): Promise<PixelSnapshot[]> {
+  const dates = Array.from({ length: SNAPSHOT_HISTORY_DAYS }, (_, i) => shiftDate(date, -i));
+  const snapshots = await Promise.all(dates.map(d => kv.get<PixelSnapshot>(snapshotKey(d), 'json')));
+  return snapshots.filter((s): s is PixelSnapshot => s !== null);
+}
+
+// =============================================================================
+// LAG MODEL
+// =============================================================================
+
+// A day's pixel revenue seen at this age or later counts as final
+const FINAL_AGE = 10;
+
+// (shop, day) pairs needed before an age's factor is trusted
+const MIN_SAMPLES = 5;
+
+// Factor key pooling all channels, for channels without enough samples of their own
+const ALL_CHANNELS = '*';
+
+/**
+ * Measure how much of a day's final pixel revenue is already reported at each age
+ * For every shop, day and channel the latest snapshot at FINAL_AGE or older gives the final
+ * value; each earlier snapshot of the same day adds to that age's sums. The factor for an age
+ * is Σ revenue seen at that age ÷ Σ final revenue, per channel and for all channels pooled.
+ * @param snapshots Stored snapshots (any order)
+ */
+export function buildPixelLagModel(snapshots: PixelSnapshot[]): PixelLagModel {
+  // Observations per shop, day and channel: age → pixel revenue
+  const observed = new Map<string, Map<number, number>>();
+  for (const snapshot of snapshots) {
+    for (const [shopCode, days] of Object.entries(snapshot.pixelRevenue)) {
+      for (const [date, channels] of Object.entries(days)) {
+        const age = daysBetween(date, snapshot.date);
+        for (const [channel, revenue] of Object.entries(channels)) {
+          const key = `${shopCode}|${date}|${channel}`;
+          if (!observed.has(key)) observed.set(key, new Map());
+          observed.get(key)!.set(age, revenue);
+        }
+      }
+    }
+  }
+
+  // Per channel and age: [Σ seen, Σ final, samples]
+  const sums = new Map<string, Array<[number, number, number]>>();
+  const add = (channel: string, age: number, seen: number, final: number) => {
+    if (!sums.has(channel)) sums.set(channel, Array.from({ length: FINAL_AGE }, () => [0, 0, 0]));
+    const entry = sums.get(channel)![age];
+    entry[0] += seen;
+    entry[1] += final;
+    entry[2]++;
+  };
+
+  for (const [key, byAge] of observed) {
+    const finalAge = Math.max(...byAge.keys());
+    const final = byAge.get(finalAge)!;
+    if (finalAge < FINAL_AGE || final <= 0) continue;
+
+    const channel = key.split('|')[2];
+    for (const [age, seen] of byAge) {
+      if (age < 1 || age >= FINAL_AGE) continue;
+      add(channel, age, seen, final);
+      add(ALL_CHANNELS, age, seen, final);
+    }
+  }
+
+  const factors: PixelLagModel['factors'] = {};
+  for (const [channel, ages] of sums) {
+    // Pixel revenue can also shrink (deduplication); a day is never more than complete
+    factors[channel] = ages.map(([seen, final, samples], age) =>
+      age >= 1 && samples >= MIN_SAMPLES && seen > 0 ? Math.min(1, seen / final) : null
+    );
+  }
+
+  return { factors, snapshots: snapshots.length };
+}
+
+/**
+ * Share of a day's final pixel revenue reported at an age
+ * @param model From buildPixelLagModel
+ * @param channel Channel key ("meta", "google", ...)
+ * @param age Days since the day (1 = loaded the day after)
+ * @returns Completion factor (1 from FINAL_AGE on), or null if not measured yet
+ */
+export function getCompletionFactor(model: PixelLagModel, channel: string, age: number): number | null {
+  if (age >= FINAL_AGE) return 1;
+  if (age < 1) return null;
+  return model.factors[channel]?.[age] ?? model.factors[ALL_CHANNELS]?.[age] ?? null;
+}
+
+// =============================================================================
+// ESTIMATES
+// =============================================================================
+
+/**
+ * How complete a channel's pixel revenue for a period is
+ * Each day's pixel revenue is scaled up by its age's completion factor to estimate the final total.
+ * @param model From buildPixelLagModel
+ * @param rows The shop's daily metrics
+ * @param channel Channel key ("meta", "google", ...)
+ * @param period Reported period
+ * @param date Day the data was loaded (see getDataDate)
+ * @returns Share of the estimated final revenue reported so far (0–1), or null without an estimate
+ *   (no pixel revenue, or a day whose age has no factor yet)
+ */
+export function getPixelMaturity(
+  model: PixelLagModel,
+  rows: MarketingDailyMetrics[],
+  channel: string,
+  period: DateRange,
+  date: string
+): number | null {
+  let seen = 0;
+  let final = 0;
+
+  for (const row of rows) {
+    if (row.date < period.start || row.date > period.end) continue;
+    const revenue = row.channels[channel]?.pixelRevenue ?? 0;
+    if (revenue <= 0) continue;
+    const factor = getCompletionFactor(model, channel, daysBetween(row.date, date));
+    if (factor === null) return null;
+    seen += revenue;
+    final += revenue / factor;
+  }
+
+  return final > 0 ? seen / final : null;
+}
@@ -1,13 +1,44 @@
-import { DailyReportData, WeeklyReportData, MonthlyReportData, SlackBlock } from './types';
+import {
+  DailyReportData,
+  WeeklyReportData,
+  MonthlyReportData,
+  SeasonReportData,
+  PacingData,
+  CountryMarketingMetrics,
+  SlackBlock,
+  TrackingAlert,
+  DataQualityIssue,
+  ShopSyncStatus,
+  YoYFxMode,
+  YoYAlignment,
+  EventAlignment,
+  ComparisonColumn,
+  ComparisonReport,
+  VatMode,
+  MarketGroupMode,
+} from './types';
 import {
   formatMainTable,
+  formatAcquisitionTable,
   formatChannelBreakdownInline,
   formatChannelTable,
+  formatSettledPixelTable,
   formatTrendTable,
+  formatSeasonTable,
+  formatSeasonPaceTable,
+  formatRevenue,
+  formatYoY,
+  formatAnomaly,
+  formatTrackingAlert,
   formatDate,
+  formatShortDate,
   formatDateRange,
+  formatDataAsOf,
   getMonthName,
 } from './formatting';
+import { ANOMALY_BASELINE_WEEKS } from './anomalies';
+import { SEASON_EVENT_LABELS } from './events';
+import { PIXEL_SETTLED_AGE } from './pixellag';
 
 // =============================================================================
 // CONTEXT MESSAGES (rotating cat messages)
@@ -35,12 +66,94 @@ const MONTHLY_MESSAGES = [
   "Monthly report time <!channel> Kitty walked across every spreadsheet this month. Fine, you can have it :meow_fluffy-deal-with-it:",
 ];
 
+const SEASON_MESSAGES = [
+  "Sweater season <!channel> :meow_party: Kitty counted every sale since September. Here's how the season is going:",
+  "pspsps <!channel> :fat_cat: Kitty lined this season up against the last two. See for yourself:",
+  "Kitty has been knitting numbers since September <!channel> Season so far :meow_fluffy-deal-with-it:",
+];
+
 function getRandomMessage(messages: string[]): string {
   return messages[Math.floor(Math.random() * messages.length)];
 }
 
 const OUTRO = `Chat with Claude\u2024ai — add this connector and call it _Marketing Kitty_: \`https://marketing-slack-bot.seoblogbot.workers.dev/sse\`, then ask: "What can Marketing Kitty help me with?" to list all the functions :meow_fluffy-deal-with-it:`;
 
+// Data-quality warning line (max 3 issues, rest summarised)
+const MAX_QUALITY_ISSUES_SHOWN = 3;
+
+function dataQualityFooter(issues: DataQualityIssue[]): string | null {
+  if (issues.length === 0) return null;
+  const shown = issues.slice(0, MAX_QUALITY_ISSUES_SHOWN).map(i => `${i.shopCode} ${i.message}`);
+  const more = issues.length - shown.length;
+  const suffix = more > 0 ? ` (+${more} more at /data-quality)` : '';
+  return `🧪 Data quality: ${shown.join(' · ')}${suffix}`;
+}
+
+// VAT line: matches whether revenue had VAT removed
+function vatFooter(vatMode: VatMode): string {
+  return vatMode === 'ex'
+    ? '💰 Revenue figures exclude VAT (net, at the VAT rate in force each day). Spend is ex-VAT.'
+    : '💰 Revenue figures include VAT (gross). Spend is ex-VAT.';
+}
+
+// Currency line: amounts are converted at each day's rate; constant mode also re-rates last year
+function currencyFooter(currency: string, yoyFxMode: YoYFxMode): string {
+  return yoyFxMode === 'constant'
+    ? `💱 Amounts in ${currency} at daily FX rates; YoY at constant currency (last year converted at this period's rates).`
+    : `💱 Amounts in ${currency} at daily FX rates.`;
+}
+
+// YoY line: which days last year the figures are compared with
+function yoyFooter(alignment: YoYAlignment): string {
+  return alignment === 'weekday'
+    ? '📆 YoY vs the same weekdays last year (364 days earlier).'
+    : '📆 YoY vs the same dates last year (weeks: same ISO week).';
+}
+
+// Peak season: markets whose last shipping day isn't in config/events.json can't be lined up by it
+function missingCutoffsFooter(shopCodes: string[]): string | null {
+  if (shopCodes.length === 0) return null;
+  return `📦 No last shipping day configured for ${shopCodes.join(', ')} this year or last (config/events.json) — not lined up by it.`;
+}
+
+// YoY line in peak season: markets lined up by a peak event (grouped by event), then everyone else
+function eventYoYFooter(events: EventAlignment[], alignment: YoYAlignment, countries: CountryMarketingMetrics[], otherPeriods: string): string {
+  const groups = new Map<string, string[]>();
+  for (const e of events) {
+    const key = `${SEASON_EVENT_LABELS[e.event]} (${formatShortDate(new Date(e.date + 'T00:00:00'))} vs ${formatShortDate(new Date(e.previousDate + 'T00:00:00'))} last year)`;
+    groups.set(key, [...(groups.get(key) ?? []), e.shopCode]);
+  }
+  const lined = [...groups].map(([event, codes]) => `${codes.join(', ')} by ${event}`).join('; ');
+  const others = events.length < countries.length
+    ? ` Other markets vs the same ${alignment === 'weekday' ? 'weekdays' : 'dates'} last year.`
+    : '';
+  return `📆 Peak season: YoY lined up by days from the nearest event — ${lined}.${others} ${otherPeriods}`;
+}
+
+// Debug view: what the "weighted" rows are
+const WEIGHTED_TOTALS_FOOTER = '🧮 Totals are pooled (sum of revenue / sum of spend, etc.); "weighted" rows show the old revenue-weighted averages for comparison.';
+
+// Lines shown in the daily "Unusual" section (largest deviations first)
+const MAX_ANOMALIES = 6;
+
+// Channel NC orders without a <channel>_pixel_nc_orders column are estimated
+const NC_ORDERS_ESTIMATE_FOOTER = '~ NC Orders are estimated (channel NC revenue ÷ NC AOV) where the sheet has no `<channel>_pixel_nc_orders` column.';
+
+// What the channel tables' Est. final / Mature columns are
+function pixelEstimateFooter(snapshots: number): string {
+  return `⏱️ Est. final = pixel ROAS once late conversions are in, from how each channel's pixel revenue grew over later loads (${snapshots} daily snapshots). Mature = share of it reported so far.`;
+}
+
+// Notice for markets left out because their tab isn't synced through the period yet
+function notSyncedNotice(notSynced: ShopSyncStatus[]): string | null {
+  if (notSynced.length === 0) return null;
+  const codes = notSynced.map(s => s.shopCode).join(', ');
+  const latest = notSynced
+    .map(s => `${s.shopCode} ${s.lastDate ? formatDate(new Date(s.lastDate + 'T00:00:00')) : '—'}`)
+    .join(', ');
+  return `⏳ *Data not synced yet for ${codes}* — left out of the numbers below (latest data: ${latest})`;
+}
+
 // =============================================================================
 // BLOCK HELPERS
 // =============================================================================
@@ -67,6 +180,74 @@ function codeBlock(content: string): SlackBlock {
   };
 }
 
+// PoP column header and period per report ("WoW" = vs the week before)
+const POP_LABELS: Record<ComparisonReport, string> = { daily: 'DoD', weekly: 'WoW', monthly: 'MoM' };
+const POP_PERIODS: Record<ComparisonReport, string> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+// WTD/MTD tables have no period before to compare with: YoY columns only
+function yoyColumns(comparisons: ComparisonColumn[]): ComparisonColumn[] {
+  return comparisons.filter(c => c.basis === 'yoy');
+}
+
+// Explains the PoP columns, when the report shows any
+function popFooter(comparisons: ComparisonColumn[], report: ComparisonReport): string | null {
+  if (!comparisons.some(c => c.basis === 'pop')) return null;
+  const points = comparisons.some(c => c.basis === 'pop' && c.metric === 'ncPercent') ? ' (NC% in percentage points)' : '';
+  return `🔁 ${POP_LABELS[report]} = change vs the ${POP_PERIODS[report]} before${points}.`;
+}
+
+// Main table with the report's market-group mode applied (subtotal rows or groups only), its comparison
+// columns, plus month-end projection columns on WTD/MTD tables that have them and target columns when any market has targets
+function mainTable(
+  table: Pick<PacingData, 'countries' | 'totals' | 'groups' | 'projectedTo'>,
+  options: { showLocalCurrency: boolean; marketGroups: MarketGroupMode; showWeightedTotals: boolean },
+  comparisons: ComparisonColumn[],
+  report: ComparisonReport
+): SlackBlock {
+  const groups = options.marketGroups === 'off' ? [] : table.groups;
+  return codeBlock(formatMainTable(
+    table.countries,
+    table.totals,
+    comparisons,
+    options.showLocalCurrency,
+    groups,
+    options.marketGroups === 'collapsed',
+    options.showWeightedTotals,
+    table.projectedTo !== undefined,
+    hasTargets(table.countries),
+    POP_LABELS[report]
+  ));
+}
+
+function hasTargets(countries: CountryMarketingMetrics[] | undefined): boolean {
+  return countries?.some(c => c.target !== undefined) ?? false;
+}
+
+// Explains the target columns (budget share is compared with the share of the budget period elapsed)
+function targetsFooter(countries: CountryMarketingMetrics[] | undefined, budgetPeriod: string): string | null {
+  if (!hasTargets(countries)) return null;
+  return `🎯 Budget = share of the ${budgetPeriod} spend budget used; Δ = vs target. 🟢 on track · 🟡 budget pace off by 10%+ or a target missed by 3%+ · 🔴 pace off by 25%+ or a target missed by 10%+.`;
+}
+
+// Explains the EOM columns of a projected WTD/MTD table
+function projectionFooter(projectedTo: string | undefined): string | null {
+  if (!projectedTo) return null;
+  return `📐 EOM = projected total for the month to ${formatDate(new Date(projectedTo + 'T00:00:00'))}, from the month so far and the same weekdays in prior years; ± is the 80% range of EOM revenue.`;
+}
+
+// New vs returning table, grouped like the main table. The sheet has no store-level new
+// customer revenue, so returning revenue is store revenue minus the channels' pixel NC revenue.
+function acquisitionTable(
+  table: Pick<PacingData, 'countries' | 'totals' | 'groups'>,
+  options: { marketGroups: MarketGroupMode }
+): SlackBlock[] {
+  const groups = options.marketGroups === 'off' ? [] : table.groups;
+  return [
+    codeBlock(formatAcquisitionTable(table.countries, table.totals, groups, options.marketGroups === 'collapsed')),
+    context('Returning / Ret% are pixel-based estimates: revenue − pixel-tracked new customer revenue. New customers the pixel misses count as returning, so both run high.'),
+  ];
+}
+
 // =============================================================================
 // DAILY REPORT
 // =============================================================================
@@ -79,9 +260,16 @@ export function generateDailyReport(data: DailyReportData): SlackBlock[][] {
   blocks.push(context(formatDate(data.date)));
   blocks.push(section(getRandomMessage(DAILY_MESSAGES)));
 
+  const syncNotice = notSyncedNotice(data.notSynced);
+  if (syncNotice) {
+    blocks.push(section(syncNotice));
+    // Nothing synced at all — the notice is the report
+    if (data.countries.length === 0) return [blocks];
+  }
+
   // Main metrics
   blocks.push(section(`*⚡ MAIN METRICS — ${formatDate(data.date)}*`));
-  blocks.push(codeBlock(formatMainTable(data.countries, data.totals, false)));
+  blocks.push(mainTable(data, data, data.comparisons, 'daily'));
 
   // Channel breakdown
   if (data.countries.some(c => c.channels.length > 0)) {
@@ -90,10 +278,27 @@ export function generateDailyReport(data: DailyReportData): SlackBlock[][] {
     blocks.push(codeBlock(formatChannelBreakdownInline(data.countries)));
   }
 
+  // Pixel ROAS for a day old enough to have settled
+  if (data.settledPixel) {
+    const settledDate = formatDate(new Date(data.settledPixel.date + 'T00:00:00'));
+    blocks.push(section(`*🎯 SETTLED PIXEL ROAS — ${settledDate}*`));
+    blocks.push(context(`Pixel data ${PIXEL_SETTLED_AGE} days on, after most late conversions are in. Gap = pixel ROAS vs channel-reported ROAS.`));
+    blocks.push(codeBlock(formatSettledPixelTable(data.settledPixel.countries)));
+  }
+
+  // Unusual figures vs the same weekday in previous weeks
+  if (data.anomalies.length > 0) {
+    const weekday = data.date.toLocaleDateString('en-US', { weekday: 'long' });
+    const lines = data.anomalies.slice(0, MAX_ANOMALIES).map(a => `• ${formatAnomaly(a, weekday)}`);
+    if (data.anomalies.length > MAX_ANOMALIES) lines.push(`…and ${data.anomalies.length - MAX_ANOMALIES} more`);
+    blocks.push(section(`*⚠️ Unusual*\n${lines.join('\n')}`));
+    blocks.push(context(`Compared with the same weekday over the previous ${ANOMALY_BASELINE_WEEKS} weeks (local currency).`));
+  }
+
   // WTD (Week-to-Date) — Wed-Fri only
   if (data.wtd) {
     blocks.push(section(`*📅 WEEK TO DATE (${data.wtd.label})*`));
-    blocks.push(codeBlock(formatMainTable(data.wtd.countries, data.wtd.totals, false)));
+    blocks.push(mainTable(data.wtd, data, yoyColumns(data.comparisons), 'daily'));
   }
 
   // Outro
@@ -101,13 +306,40 @@ export function generateDailyReport(data: DailyReportData): SlackBlock[][] {
 
   // Footer as context
   const footerParts = [];
-  footerParts.push('💡 ROAS is channel-reported (platform\'s own numbers). Pixel ROAS updated in weekly.');
-  footerParts.push('💰 Revenue figures include VAT (gross). Spend is ex-VAT.');
+  footerParts.push(data.settledPixel
+    ? '💡 ROAS in the channel breakdown is channel-reported (platform\'s own numbers). Settled pixel ROAS above; full week in weekly.'
+    : '💡 ROAS is channel-reported (platform\'s own numbers). Pixel ROAS updated in weekly.');
+  footerParts.push(vatFooter(data.vatMode));
+  footerParts.push(currencyFooter(data.currency, data.yoyFxMode));
+  if (data.yoyEvents.length > 0) {
+    footerParts.push(eventYoYFooter(data.yoyEvents, data.yoyAlignment, data.countries, 'WTD uses its own nearest event.'));
+  } else if (yoyColumns(data.comparisons).length > 0) {
+    footerParts.push(yoyFooter(data.yoyAlignment));
+  }
+  // A single calendar date last year usually fell on another weekday
+  if (data.yoyAlignment === 'calendar' && yoyColumns(data.comparisons).length > 0) {
+    footerParts.push('Daily YoY by calendar date compares different weekdays, so it swings with the weekday mix.');
+  }
+  const dailyCutoffsFooter = missingCutoffsFooter(data.missingShippingCutoffs);
+  if (dailyCutoffsFooter) footerParts.push(dailyCutoffsFooter);
+  const dailyPopFooter = popFooter(data.comparisons, 'daily');
+  if (dailyPopFooter) footerParts.push(dailyPopFooter);
+  if (data.showWeightedTotals) footerParts.push(WEIGHTED_TOTALS_FOOTER);
+  const dailyProjectionFooter = projectionFooter(data.wtd?.projectedTo);
+  if (dailyProjectionFooter) footerParts.push(dailyProjectionFooter);
+  const dailyTargetsFooter = targetsFooter(data.wtd?.countries, 'week\'s');
+  if (dailyTargetsFooter) footerParts.push(dailyTargetsFooter);
+  footerParts.push(`🕒 Data as of ${formatDataAsOf(data.dataAsOf)}.`);
   if (data.noSpendCountries.length > 0) {
     footerParts.push(`⚠️ No spend: ${data.noSpendCountries.join(', ')} — check TW setup`);
   }
   blocks.push(context(footerParts.join(' ')));
 
+  const qualityFooter = dataQualityFooter(data.dataQualityIssues);
+  if (qualityFooter) {
+    blocks.push(context(qualityFooter));
+  }
+
   return [blocks];
 }
 
@@ -124,34 +356,66 @@ export function generateWeeklyReport(data: WeeklyReportData): SlackBlock[][] {
   blocks.push(context(`Week ${data.weekNumber}, ${data.year} — ${formatDateRange(data.startDate, data.endDate)}`));
   blocks.push(section(getRandomMessage(WEEKLY_MESSAGES)));
 
+  const syncNotice = notSyncedNotice(data.notSynced);
+  if (syncNotice) {
+    blocks.push(section(syncNotice));
+    if (data.countries.length === 0) return [blocks];
+  }
+
   // Main table
   blocks.push(section(`*⚡ MAIN METRICS — Week ${data.weekNumber}, ${data.year}*`));
-  blocks.push(codeBlock(formatMainTable(data.countries, data.totals)));
+  blocks.push(mainTable(data, data, data.comparisons, 'weekly'));
+
+  // New vs returning
+  blocks.push(section('*👥 NEW VS RETURNING*'));
+  blocks.push(...acquisitionTable(data, data));
 
   // 3-week trend
   if (data.trend.length > 0) {
     blocks.push(section('*📈 3-WEEK TREND*'));
-    blocks.push(codeBlock(formatTrendTable(data.trend, 'weekly')));
+    blocks.push(codeBlock(formatTrendTable(data.trend, 'weekly', data.marketGroups !== 'off', data.showWeightedTotals)));
   }
 
   // Channel tables per country
   for (const country of data.countries) {
     if (country.channels.length > 0) {
       blocks.push(section(`*🔍 CHANNELS — ${country.shop.flag} ${country.shop.code}*`));
-      blocks.push(codeBlock(formatChannelTable(country, false)));
+      blocks.push(codeBlock(formatChannelTable(country, true, data.comparisons, POP_LABELS.weekly)));
     }
   }
 
   // Footer parts
   const footerParts = [];
-  if (data.pixelDataIncomplete) {
+  const hasPixelEstimates = data.countries.some(c => c.channels.some(ch => ch.pixelROASFinal !== undefined));
+  if (hasPixelEstimates) {
+    footerParts.push(pixelEstimateFooter(data.pixelLagSnapshots ?? 0));
+  } else if (data.pixelDataIncomplete) {
     footerParts.push('⏱️ Pixel data may update 1-3 days after week end. Saturday/Sunday numbers may be incomplete.');
   }
-  footerParts.push('💰 Revenue figures include VAT (gross). Spend is ex-VAT.');
+  footerParts.push(vatFooter(data.vatMode));
+  footerParts.push(currencyFooter(data.currency, data.yoyFxMode));
+  footerParts.push(data.yoyEvents.length > 0
+    ? eventYoYFooter(data.yoyEvents, data.yoyAlignment, data.countries, 'Trend weeks use their own nearest event; MTD is not lined up by events.')
+    : yoyFooter(data.yoyAlignment));
+  const weeklyCutoffsFooter = missingCutoffsFooter(data.missingShippingCutoffs);
+  if (weeklyCutoffsFooter) footerParts.push(weeklyCutoffsFooter);
+  const weeklyPopFooter = popFooter(data.comparisons, 'weekly');
+  if (weeklyPopFooter) footerParts.push(weeklyPopFooter);
+  if (data.showWeightedTotals) footerParts.push(WEIGHTED_TOTALS_FOOTER);
+  const weeklyProjectionFooter = projectionFooter(data.mtd?.projectedTo);
+  if (weeklyProjectionFooter) footerParts.push(weeklyProjectionFooter);
+  const weeklyTargetsFooter = targetsFooter(data.mtd?.countries, 'month\'s');
+  if (weeklyTargetsFooter) footerParts.push(weeklyTargetsFooter);
+  footerParts.push(`🕒 Data as of ${formatDataAsOf(data.dataAsOf)}.`);
+  if (data.countries.some(c => c.channels.some(ch => ch.ncOrdersEstimated))) {
+    footerParts.push(NC_ORDERS_ESTIMATE_FOOTER);
+  }
   if (data.noSpendCountries.length > 0) {
     footerParts.push(`⚠️ No spend: ${data.noSpendCountries.join(', ')} — check TW setup`);
   }
 
+  const qualityFooter = dataQualityFooter(data.dataQualityIssues);
+
   if (data.mtd) {
     // First message: main report without footer
     messages.push([...blocks]);
@@ -159,13 +423,15 @@ export function generateWeeklyReport(data: WeeklyReportData): SlackBlock[][] {
     // Second message: MTD + outro + footer
     const mtdBlocks: SlackBlock[] = [];
     mtdBlocks.push(section(`*📅 MONTH TO DATE (${data.mtd.label})*`));
-    mtdBlocks.push(codeBlock(formatMainTable(data.mtd.countries, data.mtd.totals)));
+    mtdBlocks.push(mainTable(data.mtd, data, yoyColumns(data.comparisons), 'weekly'));
     mtdBlocks.push(context(OUTRO));
     mtdBlocks.push(context(footerParts.join(' ')));
+    if (qualityFooter) mtdBlocks.push(context(qualityFooter));
     messages.push(mtdBlocks);
   } else {
     blocks.push(context(OUTRO));
     blocks.push(context(footerParts.join(' ')));
+    if (qualityFooter) blocks.push(context(qualityFooter));
     messages.push(blocks);
   }
 
@@ -187,21 +453,42 @@ export function generateMonthlyReport(data: MonthlyReportData): SlackBlock[][] {
   blocks.push(context(`${monthName} ${data.year}`));
   blocks.push(section(getRandomMessage(MONTHLY_MESSAGES)));
 
+  const syncNotice = notSyncedNotice(data.notSynced);
+  if (syncNotice) {
+    blocks.push(section(syncNotice));
+    if (data.countries.length === 0) return [blocks];
+  }
+
   // Main table
   blocks.push(section(`*⚡ MAIN METRICS — ${monthName} ${data.year}*`));
-  blocks.push(codeBlock(formatMainTable(data.countries, data.totals)));
+  blocks.push(mainTable(data, data, data.comparisons, 'monthly'));
+
+  // New vs returning
+  blocks.push(section('*👥 NEW VS RETURNING*'));
+  blocks.push(...acquisitionTable(data, data));
 
   // 3-month trend
   if (data.trend.length > 0) {
     blocks.push(section('*📈 3-MONTH TREND*'));
-    blocks.push(codeBlock(formatTrendTable(data.trend, 'monthly')));
+    blocks.push(codeBlock(formatTrendTable(data.trend, 'monthly', data.marketGroups !== 'off', data.showWeightedTotals)));
   }
 
   messages.push(blocks);
 
   // Footer parts
   const footerParts = [];
-  footerParts.push('💰 Revenue figures include VAT (gross). Spend is ex-VAT.');
+  footerParts.push(vatFooter(data.vatMode));
+  footerParts.push(currencyFooter(data.currency, data.yoyFxMode));
+  footerParts.push(yoyFooter(data.yoyAlignment));
+  const monthlyPopFooter = popFooter(data.comparisons, 'monthly');
+  if (monthlyPopFooter) footerParts.push(monthlyPopFooter);
+  if (data.showWeightedTotals) footerParts.push(WEIGHTED_TOTALS_FOOTER);
+  const monthlyTargetsFooter = targetsFooter(data.countries, 'month\'s');
+  if (monthlyTargetsFooter) footerParts.push(monthlyTargetsFooter);
+  footerParts.push(`🕒 Data as of ${formatDataAsOf(data.dataAsOf)}.`);
+  if (data.countries.some(c => c.channels.some(ch => ch.ncOrdersEstimated))) {
+    footerParts.push(NC_ORDERS_ESTIMATE_FOOTER);
+  }
   if (data.noSpendCountries.length > 0) {
     footerParts.push(`⚠️ No spend: ${data.noSpendCountries.join(', ')} — check TW setup`);
   }
@@ -213,7 +500,7 @@ export function generateMonthlyReport(data: MonthlyReportData): SlackBlock[][] {
     for (const country of data.countries) {
       if (country.channels.length > 0) {
         channelBlocks.push(section(`*🔍 CHANNELS — ${country.shop.flag} ${country.shop.code}*`));
-        channelBlocks.push(codeBlock(formatChannelTable(country, true)));
+        channelBlocks.push(codeBlock(formatChannelTable(country, true, data.comparisons, POP_LABELS.monthly)));
       }
     }
     channelBlocks.push(context(OUTRO));
@@ -228,3 +515,73 @@ export function generateMonthlyReport(data: MonthlyReportData): SlackBlock[][] {
 
   return messages;
 }
+
+// =============================================================================
+// SEASON-TO-DATE REPORT
+// =============================================================================
+
+const PREVIOUS_SEASON_NAMES = ['last season', 'two seasons ago'];
+
+export function generateSeasonReport(data: SeasonReportData): SlackBlock[][] {
+  const blocks: SlackBlock[] = [];
+  const [lastSeason, ...olderSeasons] = data.comparisons;
+
+  blocks.push(header(`🎄 SEASON TO DATE — ${data.season}`));
+  blocks.push(context(formatDateRange(data.startDate, data.endDate)));
+  blocks.push(section(getRandomMessage(SEASON_MESSAGES)));
+
+  const syncNotice = notSyncedNotice(data.notSynced);
+  if (syncNotice) {
+    blocks.push(section(syncNotice));
+    if (lastSeason.countries.length === 0) return [blocks];
+  }
+
+  // Pace line: where the season stands against the previous ones, and where it ends at last season's pace
+  const totals = lastSeason.totals;
+  const versus = data.comparisons
+    .flatMap((c, i) => (c.totals.previous ? [`${formatYoY(totals.revenue, c.totals.previous.revenue)} vs ${PREVIOUS_SEASON_NAMES[i]}`] : []))
+    .join(', ');
+  let paceLine = `*Season so far: ${formatRevenue(totals.revenue)} ${data.currency}*${versus ? ` (${versus} at the same point)` : ''}`;
+  if (data.seasonEnd) {
+    paceLine += `\nAt last season's pace from here: ~${formatRevenue(data.seasonEnd.revenue)} ${data.currency} by Dec 31 (last season: ${formatRevenue(data.seasonEnd.lastSeason)})`;
+  }
+  blocks.push(section(paceLine));
+
+  blocks.push(section('*⚡ BY MARKET*'));
+  blocks.push(codeBlock(formatSeasonTable(data.comparisons, data.marketGroups !== 'off', data.marketGroups === 'collapsed')));
+
+  if (data.pace.length > 0) {
+    blocks.push(section('*📈 CUMULATIVE PACE*'));
+    blocks.push(codeBlock(formatSeasonPaceTable(data.pace)));
+  }
+
+  blocks.push(context(OUTRO));
+
+  // Footer as context
+  const periods = data.comparisons
+    .map(c => formatDateRange(new Date(c.period.start + 'T00:00:00'), new Date(c.period.end + 'T00:00:00')))
+    .join(' and ');
+  const footerParts = [];
+  footerParts.push(`📆 Season = Sep 1 – Dec 31. LS = last season${olderSeasons.length > 0 ? ', 2S = two seasons ago' : ''}, to the same point (${periods}; ${data.yoyAlignment === 'weekday' ? 'same weekdays' : 'same dates'}). MER and NC% under LS/2S are those seasons' own figures.`);
+  footerParts.push(vatFooter(data.vatMode));
+  footerParts.push(currencyFooter(data.currency, data.yoyFxMode));
+  footerParts.push(`🕒 Data as of ${formatDataAsOf(data.dataAsOf)}.`);
+  blocks.push(context(footerParts.join(' ')));
+
+  return [blocks];
+}
+
+// =============================================================================
+// TRACKING HEALTH ALERT
+// =============================================================================
+
+export function generateTrackingHealthAlert(alerts: TrackingAlert[]): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+  const markets = [...new Set(alerts.map(a => a.shop.code))];
+
+  blocks.push(section(`*🩺 TRACKING HEALTH — ${markets.join(', ')}*`));
+  blocks.push(section(alerts.map(a => `• ${formatTrackingAlert(a)}`).join('\n')));
+  blocks.push(context('Each day of the last 3 is compared with the week before it. Check the pixel / ad account for the market and channel named. Each problem is posted once.'));
+
+  return blocks;
+}
@@ -1,3 +1,9 @@
+import { DataQualityIssue, DateRange, ChannelTotals } from './types';
+import { CHANNEL_COLUMN_SUFFIXES, discoverChannels, getChannelColumns } from './channels';
+import { FX_TAB } from './fx';
+import { TARGETS_TAB } from './targets';
+import { mergeDateRanges } from './triplewhale';
+
 // Single Google Sheet with all countries (one tab per country code)
 const SHEET_ID = '1IGS1GS7f0pSyOrpk1qEGL_dKdlmpm2G7_pO__Re-0TU';
 
@@ -72,8 +78,18 @@ async function signWithRS256(data: string, privateKeyPem: string): Promise<strin
   return arrayBufferToBase64Url(signature);
 }
 
-// Exchange JWT for access token
-async function getAccessToken(credentials: ServiceAccountCredentials): Promise<string> {
+const ACCESS_TOKEN_CACHE_KEY = 'google:access-token';
+
+// Exchange JWT for access token (reused from KV until shortly before it expires)
+async function getAccessToken(
+  credentials: ServiceAccountCredentials,
+  tokenCache?: KVNamespace
+): Promise<string> {
+  if (tokenCache) {
+    const cached = await tokenCache.get(ACCESS_TOKEN_CACHE_KEY);
+    if (cached) return cached;
+  }
+
   const jwt = await createJWT(credentials);
 
   const response = await fetch('https://oauth2.googleapis.com/token', {
@@ -90,7 +106,14 @@ async function getAccessToken(credentials: ServiceAccountCredentials): Promise<s
     throw new Error(`Failed to get access token: ${error}`);
   }
 
-  const data = await response.json() as { access_token: string };
+  const data = await response.json() as { access_token: string; expires_in?: number };
+
+  if (tokenCache) {
+    // Keep a 5 min margin so a cached token never expires mid-run (KV minimum TTL is 60s)
+    const ttl = Math.max(60, (data.expires_in ?? 3600) - 300);
+    await tokenCache.put(ACCESS_TOKEN_CACHE_KEY, data.access_token, { expirationTtl: ttl });
+  }
+
   return data.access_token;
 }
 
@@ -113,23 +136,8 @@ export interface MarketingDailyMetrics {
   orders: number;        // total orders
   newCustomerOrders: number;  // new customer orders
 
-  // Meta channel
-  metaSpend: number;
-  metaPixelRevenue: number;
-  metaChannelRevenue: number;
-  metaPixelNcRevenue: number;  // new customer revenue
-
-  // Google channel
-  googleSpend: number;
-  googlePixelRevenue: number;
-  googleChannelRevenue: number;
-  googlePixelNcRevenue: number;
-
-  // TikTok channel
-  tiktokSpend: number;
-  tiktokPixelRevenue: number;
-  tiktokChannelRevenue: number;
-  tiktokPixelNcRevenue: number;
+  // Per-channel columns, keyed by column prefix ("meta", "google", "tiktok", ...)
+  channels: Record<string, ChannelTotals>;
 }
 
 // =============================================================================
@@ -161,12 +169,13 @@ async function fetchWithRetry(
   return fetch(url, options);
 }
 
-// Read ALL metrics from a shop tab (no date filtering — load once, filter locally)
+// Read ALL metrics from a shop tab (no date filtering — load once, filter locally).
+// The tab name alone reads every used column, however many channels the header has.
 async function readAllShopMetrics(
   accessToken: string,
   shopCode: string
-): Promise<MarketingDailyMetrics[]> {
-  const range = encodeURIComponent(`'${shopCode}'!A:Z`);
+): Promise<ParsedShopTab> {
+  const range = encodeURIComponent(`'${shopCode}'`);
   const url = `https://sheets.googleapis.com/v4/spreadsheets/${SHEET_ID}/values/${range}`;
 
   const response = await fetchWithRetry(url, {
@@ -180,15 +189,61 @@ async function readAllShopMetrics(
   }
 
   const data = await response.json() as { values?: string[][] };
-  const rows = data.values || [];
+  return parseShopRows(shopCode, data.values || []);
+}
+
+// Shop-level columns the parser reads. Anything missing is parsed as 0 and reported as a data-quality issue.
+// Channel columns (<channel>_spend, <channel>_pixel_revenue, ...) are discovered from the header row.
+export const EXPECTED_COLUMNS = ['date', 'order_revenue', 'spend', 'orders', 'new_customer_orders'];
+
+const REQUIRED_COLUMNS = ['date', 'order_revenue'];
+
+export interface ParsedShopTab {
+  rows: MarketingDailyMetrics[];
+  issues: DataQualityIssue[];   // Schema/parse problems found while reading the tab
+}
+
+// Parse a shop tab (header row + daily rows) into metrics.
+// Shared by the Sheets loader and the local fixture loader.
+export function parseShopRows(
+  shopCode: string,
+  rows: string[][]
+): ParsedShopTab {
+  const issues: DataQualityIssue[] = [];
 
   if (rows.length < 2) {
     console.log(`Sheet ${shopCode} has no data`);
-    return [];
+    return { rows: [], issues };
   }
 
   const headers = rows[0].map(h => h?.toLowerCase().trim() || '');
 
+  // Channels come from the headers; each one should have all four required columns
+  const channelKeys = discoverChannels(headers);
+  const knownColumns = [...EXPECTED_COLUMNS, ...channelKeys.flatMap(c => getChannelColumns(c))];
+  const requiredChannelColumns = channelKeys.flatMap(c => getChannelColumns(c, false));
+
+  // Schema check: missing columns silently parse as 0, unknown ones are usually renames
+  const missingColumns = [...EXPECTED_COLUMNS, ...requiredChannelColumns].filter(c => !headers.includes(c));
+  const unknownColumns = headers.filter(h => h !== '' && !knownColumns.includes(h));
+  if (missingColumns.length > 0) {
+    const required = missingColumns.some(c => REQUIRED_COLUMNS.includes(c));
+    issues.push({
+      shopCode,
+      check: 'missing_header',
+      severity: required ? 'error' : 'warning',
+      message: `missing column${missingColumns.length > 1 ? 's' : ''} ${missingColumns.join(', ')}`,
+    });
+  }
+  if (unknownColumns.length > 0) {
+    issues.push({
+      shopCode,
+      check: 'unknown_header',
+      severity: 'warning',
+      message: `unexpected column${unknownColumns.length > 1 ? 's' : ''} ${unknownColumns.join(', ')} (renamed?)`,
+    });
+  }
+
   // Base columns
   const dateCol = headers.findIndex(h => h === 'date');
   const orderRevCol = headers.findIndex(h => h === 'order_revenue');
@@ -196,30 +251,36 @@ async function readAllShopMetrics(
   const ordersCol = headers.findIndex(h => h === 'orders');
   const newCustomerOrdersCol = headers.findIndex(h => h === 'new_customer_orders');
 
-  // Meta columns
-  const metaSpendCol = headers.findIndex(h => h === 'meta_spend');
-  const metaPixelRevCol = headers.findIndex(h => h === 'meta_pixel_revenue');
-  const metaChannelRevCol = headers.findIndex(h => h === 'meta_channel_revenue');
-  const metaPixelNcRevCol = headers.findIndex(h => h === 'meta_pixel_nc_revenue');
-
-  // Google columns
-  const googleSpendCol = headers.findIndex(h => h === 'google_spend');
-  const googlePixelRevCol = headers.findIndex(h => h === 'google_pixel_revenue');
-  const googleChannelRevCol = headers.findIndex(h => h === 'google_channel_revenue');
-  const googlePixelNcRevCol = headers.findIndex(h => h === 'google_pixel_nc_revenue');
-
-  // TikTok columns
-  const tiktokSpendCol = headers.findIndex(h => h === 'tiktok_spend');
-  const tiktokPixelRevCol = headers.findIndex(h => h === 'tiktok_pixel_revenue');
-  const tiktokChannelRevCol = headers.findIndex(h => h === 'tiktok_channel_revenue');
-  const tiktokPixelNcRevCol = headers.findIndex(h => h === 'tiktok_pixel_nc_revenue');
+  // Channel columns (index per field, -1 if the column is missing)
+  const channelCols = channelKeys.map(channel => {
+    const cols = {} as Record<keyof ChannelTotals, number>;
+    for (const { suffix, field } of CHANNEL_COLUMN_SUFFIXES) {
+      cols[field] = headers.indexOf(channel + suffix);
+    }
+    return { channel, cols };
+  });
 
   if (dateCol === -1 || orderRevCol === -1) {
     console.error(`Could not find required columns for ${shopCode}. Headers: ${headers.join(', ')}`);
-    return [];
+    return { rows: [], issues };
   }
 
   const results: MarketingDailyMetrics[] = [];
+  const invalidDates: string[] = [];
+  const invalidNumberDates = new Set<string>();
+  let invalidNumberExample = '';
+
+  // Missing column or empty cell = 0; text that isn't a plain number (e.g. "1,234") is flagged
+  const readNumber = (row: string[], col: number, date: string): number => {
+    if (col < 0) return 0;
+    const raw = row[col]?.trim() ?? '';
+    if (raw === '') return 0;
+    if (isNaN(Number(raw))) {
+      invalidNumberDates.add(date);
+      invalidNumberExample ||= raw;
+    }
+    return parseFloat(raw) || 0;
+  };
 
   for (let i = 1; i < rows.length; i++) {
     const row = rows[i];
@@ -227,76 +288,256 @@ async function readAllShopMetrics(
 
     // ISO format: 2025-02-06
     const rowDate = new Date(row[dateCol] + 'T00:00:00');
-    if (isNaN(rowDate.getTime())) continue;
-
-    const orderRevenue = parseFloat(row[orderRevCol]) || 0;
-    const spend = spendCol >= 0 ? (parseFloat(row[spendCol]) || 0) : 0;
-    const orders = ordersCol >= 0 ? (parseFloat(row[ordersCol]) || 0) : 0;
-    const newCustomerOrders = newCustomerOrdersCol >= 0 ? (parseFloat(row[newCustomerOrdersCol]) || 0) : 0;
-
-    // Meta
-    const metaSpend = metaSpendCol >= 0 ? (parseFloat(row[metaSpendCol]) || 0) : 0;
-    const metaPixelRevenue = metaPixelRevCol >= 0 ? (parseFloat(row[metaPixelRevCol]) || 0) : 0;
-    const metaChannelRevenue = metaChannelRevCol >= 0 ? (parseFloat(row[metaChannelRevCol]) || 0) : 0;
-    const metaPixelNcRevenue = metaPixelNcRevCol >= 0 ? (parseFloat(row[metaPixelNcRevCol]) || 0) : 0;
-
-    // Google
-    const googleSpend = googleSpendCol >= 0 ? (parseFloat(row[googleSpendCol]) || 0) : 0;
-    const googlePixelRevenue = googlePixelRevCol >= 0 ? (parseFloat(row[googlePixelRevCol]) || 0) : 0;
-    const googleChannelRevenue = googleChannelRevCol >= 0 ? (parseFloat(row[googleChannelRevCol]) || 0) : 0;
-    const googlePixelNcRevenue = googlePixelNcRevCol >= 0 ? (parseFloat(row[googlePixelNcRevCol]) || 0) : 0;
-
-    // TikTok
-    const tiktokSpend = tiktokSpendCol >= 0 ? (parseFloat(row[tiktokSpendCol]) || 0) : 0;
-    const tiktokPixelRevenue = tiktokPixelRevCol >= 0 ? (parseFloat(row[tiktokPixelRevCol]) || 0) : 0;
-    const tiktokChannelRevenue = tiktokChannelRevCol >= 0 ? (parseFloat(row[tiktokChannelRevCol]) || 0) : 0;
-    const tiktokPixelNcRevenue = tiktokPixelNcRevCol >= 0 ? (parseFloat(row[tiktokPixelNcRevCol]) || 0) : 0;
+    if (isNaN(rowDate.getTime())) {
+      invalidDates.push(`row ${i + 1} "${row[dateCol]}"`);
+      continue;
+    }
+    const date = formatLocalDate(rowDate);
+
+    const channels: Record<string, ChannelTotals> = {};
+    for (const { channel, cols } of channelCols) {
+      channels[channel] = {
+        spend: readNumber(row, cols.spend, date),
+        pixelRevenue: readNumber(row, cols.pixelRevenue, date),
+        channelRevenue: readNumber(row, cols.channelRevenue, date),
+        pixelNcRevenue: readNumber(row, cols.pixelNcRevenue, date),
+        pixelNcOrders: cols.pixelNcOrders < 0 ? null : readNumber(row, cols.pixelNcOrders, date),
+      };
+    }
 
     results.push({
-      date: formatLocalDate(rowDate),
-      orderRevenue,
-      spend,
-      orders,
-      newCustomerOrders,
-      metaSpend,
-      metaPixelRevenue,
-      metaChannelRevenue,
-      metaPixelNcRevenue,
-      googleSpend,
-      googlePixelRevenue,
-      googleChannelRevenue,
-      googlePixelNcRevenue,
-      tiktokSpend,
-      tiktokPixelRevenue,
-      tiktokChannelRevenue,
-      tiktokPixelNcRevenue,
+      date,
+      orderRevenue: readNumber(row, orderRevCol, date),
+      spend: readNumber(row, spendCol, date),
+      orders: readNumber(row, ordersCol, date),
+      newCustomerOrders: readNumber(row, newCustomerOrdersCol, date),
+      channels,
+    });
+  }
+
+  if (invalidDates.length > 0) {
+    issues.push({
+      shopCode,
+      check: 'invalid_date',
+      severity: 'warning',
+      message: `${invalidDates.length} row${invalidDates.length > 1 ? 's' : ''} skipped with unparseable date (${invalidDates.slice(0, 3).join(', ')})`,
+    });
+  }
+  if (invalidNumberDates.size > 0) {
+    const dates = [...invalidNumberDates].sort();
+    issues.push({
+      shopCode,
+      check: 'invalid_number',
+      severity: 'warning',
+      message: `non-numeric values (e.g. "${invalidNumberExample}")`,
+      dates,
     });
   }
 
-  return results;
+  return { rows: results, issues };
 }
 
 // Load all shop data in parallel (1 auth call + 8 API calls total)
 export async function loadAllShopData(
   credentials: ServiceAccountCredentials,
-  shopCodes: string[]
-): Promise<Map<string, MarketingDailyMetrics[]>> {
-  const accessToken = await getAccessToken(credentials);
+  shopCodes: string[],
+  tokenCache?: KVNamespace
+): Promise<Map<string, ParsedShopTab>> {
+  const accessToken = await getAccessToken(credentials, tokenCache);
 
   console.log(`Loading marketing data for ${shopCodes.length} shops...`);
   const results = await Promise.all(
     shopCodes.map(code => readAllShopMetrics(accessToken, code))
   );
 
-  const dataMap = new Map<string, MarketingDailyMetrics[]>();
+  const dataMap = new Map<string, ParsedShopTab>();
   shopCodes.forEach((code, i) => {
-    console.log(`  ${code}: ${results[i].length} days loaded`);
+    console.log(`  ${code}: ${results[i].rows.length} days loaded`);
     dataMap.set(code, results[i]);
   });
 
   return dataMap;
 }
 
+// Read the FX rate tab in full (small). A missing tab isn't fatal — conversion falls back to static rates.
+export async function loadFxRows(
+  credentials: ServiceAccountCredentials,
+  tokenCache?: KVNamespace
+): Promise<string[][]> {
+  const accessToken = await getAccessToken(credentials, tokenCache);
+  const range = encodeURIComponent(`'${FX_TAB}'`);
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${SHEET_ID}/values/${range}`;
+
+  const response = await fetchWithRetry(url, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    console.warn(`⚠️ Could not read ${FX_TAB} tab (${response.status}) — using static exchange rates`);
+    return [];
+  }
+
+  const data = await response.json() as { values?: string[][] };
+  return data.values || [];
+}
+
+// Read the Targets tab in full (small). A missing tab isn't fatal — the bundled config/targets.json is used instead.
+export async function loadTargetRows(
+  credentials: ServiceAccountCredentials,
+  tokenCache?: KVNamespace
+): Promise<string[][]> {
+  const accessToken = await getAccessToken(credentials, tokenCache);
+  const range = encodeURIComponent(`'${TARGETS_TAB}'`);
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${SHEET_ID}/values/${range}`;
+
+  const response = await fetchWithRetry(url, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    console.warn(`⚠️ Could not read ${TARGETS_TAB} tab (${response.status}) — using config targets`);
+    return [];
+  }
+
+  const data = await response.json() as { values?: string[][] };
+  return data.values || [];
+}
+
+// =============================================================================
+// DATE-RANGE LOADING (values:batchGet — only the rows a report needs)
+// =============================================================================
+
+// Column index → A1 column letter (0 → A, 25 → Z, 26 → AA)
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Read several A1 ranges (any tabs) in one request
+async function batchGetValues(accessToken: string, ranges: string[]): Promise<string[][][]> {
+  if (ranges.length === 0) return [];
+
+  const params = ranges.map(r => `ranges=${encodeURIComponent(r)}`).join('&');
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${SHEET_ID}/values:batchGet?${params}`;
+
+  const response = await fetchWithRetry(url, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error(`❌ FAILED batch read (${ranges.length} ranges): ${response.status} ${error}`);
+    throw new Error(`Failed to read sheet ranges: ${response.status}`);
+  }
+
+  const data = await response.json() as { valueRanges?: Array<{ values?: string[][] }> };
+  return ranges.map((_, i) => data.valueRanges?.[i]?.values ?? []);
+}
+
+/**
+ * Map a tab's date column to the sheet rows inside the requested ranges
+ * @param dateCells Date column values starting at sheet row 2
+ * @param ranges Merged date ranges to keep
+ * @returns Contiguous [firstRow, lastRow] blocks (1-based sheet rows) + unparseable date cells
+ */
+function getRowBlocks(
+  dateCells: string[][],
+  ranges: DateRange[]
+): { blocks: Array<[number, number]>; invalidDates: string[] } {
+  const blocks: Array<[number, number]> = [];
+  const invalidDates: string[] = [];
+
+  for (let i = 0; i < dateCells.length; i++) {
+    const raw = dateCells[i]?.[0];
+    if (!raw) continue;
+
+    const sheetRow = i + 2;
+    const rowDate = new Date(raw + 'T00:00:00');
+    if (isNaN(rowDate.getTime())) {
+      invalidDates.push(`row ${sheetRow} "${raw}"`);
+      continue;
+    }
+
+    const date = formatLocalDate(rowDate);
+    if (!ranges.some(r => date >= r.start && date <= r.end)) continue;
+
+    const last = blocks[blocks.length - 1];
+    if (last && last[1] === sheetRow - 1) {
+      last[1] = sheetRow;
+    } else {
+      blocks.push([sheetRow, sheetRow]);
+    }
+  }
+
+  return { blocks, invalidDates };
+}
+
+/**
+ * Load only the rows covering the given date ranges for each shop (3 API calls total:
+ * header rows, date columns, then the matching row blocks across all tabs)
+ * @param credentials Google service account credentials
+ * @param shopCodes Shop tabs to read
+ * @param ranges Date ranges needed (merged before reading)
+ * @param tokenCache Optional KV namespace for the access token
+ */
+export async function loadShopDataForRanges(
+  credentials: ServiceAccountCredentials,
+  shopCodes: string[],
+  ranges: DateRange[],
+  tokenCache?: KVNamespace
+): Promise<Map<string, ParsedShopTab>> {
+  const accessToken = await getAccessToken(credentials, tokenCache);
+  const merged = mergeDateRanges(ranges);
+  console.log(`Loading marketing data for ${shopCodes.length} shops (${merged.map(r => `${r.start}–${r.end}`).join(', ')})...`);
+
+  // 1. Header rows → date column per tab
+  const headerRows = (await batchGetValues(accessToken, shopCodes.map(code => `'${code}'!1:1`)))
+    .map(values => values[0] ?? []);
+  const dateCols = headerRows.map(headers => headers.findIndex(h => h?.toLowerCase().trim() === 'date'));
+  const indexedShops = shopCodes.filter((_, i) => dateCols[i] >= 0);
+
+  // 2. Date columns → sheet rows inside the requested ranges
+  const dateColumns = await batchGetValues(
+    accessToken,
+    indexedShops.map(code => {
+      const letter = columnLetter(dateCols[shopCodes.indexOf(code)]);
+      return `'${code}'!${letter}2:${letter}`;
+    })
+  );
+  const rowBlocks = new Map(indexedShops.map((code, i) => [code, getRowBlocks(dateColumns[i], merged)]));
+
+  // 3. Only the row blocks we need, through the tab's last header column (channels add columns past Z)
+  const blockRequests = indexedShops.flatMap(code => {
+    const lastColumn = columnLetter(headerRows[shopCodes.indexOf(code)].length - 1);
+    return rowBlocks.get(code)!.blocks.map(([first, last]) => ({ code, range: `'${code}'!A${first}:${lastColumn}${last}` }));
+  });
+  const blockValues = await batchGetValues(accessToken, blockRequests.map(r => r.range));
+
+  const dataMap = new Map<string, ParsedShopTab>();
+  shopCodes.forEach((code, i) => {
+    const rows = [headerRows[i], ...blockRequests.flatMap((r, j) => (r.code === code ? blockValues[j] : []))];
+    const tab = parseShopRows(code, rows);
+
+    const invalidDates = rowBlocks.get(code)?.invalidDates ?? [];
+    if (invalidDates.length > 0) {
+      tab.issues.push({
+        shopCode: code,
+        check: 'invalid_date',
+        severity: 'warning',
+        message: `${invalidDates.length} row${invalidDates.length > 1 ? 's' : ''} skipped with unparseable date (${invalidDates.slice(0, 3).join(', ')})`,
+      });
+    }
+
+    console.log(`  ${code}: ${tab.rows.length} days loaded`);
+    dataMap.set(code, tab);
+  });
+
+  return dataMap;
+}
+
 // =============================================================================
 // LOCAL FILTERING (no API calls)
 // =============================================================================
@@ -308,3 +549,11 @@ export function getMetricsForPeriod(
 ): MarketingDailyMetrics[] {
   return allData.filter(m => m.date >= startDate && m.date <= endDate);
 }
+
+// Keep only rows inside any of the given date ranges
+export function getMetricsForRanges(
+  allData: MarketingDailyMetrics[],
+  ranges: DateRange[]
+): MarketingDailyMetrics[] {
+  return allData.filter(m => ranges.some(r => m.date >= r.start && m.date <= r.end));
+}
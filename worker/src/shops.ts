@@ -1,26 +1,137 @@
+import type { Env } from './types';
+import SHOP_CONFIG from '../config/shops.json';
+
 export interface Shop {
   code: string;
   name: string;
   domain: string;
   currency: string;
   flag: string;
-  exchangeRateToNOK: number; // Multiplier to convert to NOK
-  vatRate: number; // VAT rate as decimal (0.25 = 25%). Revenue divided by (1 + vatRate)
+  exchangeRateToNOK: number; // Fallback multiplier to NOK (dated rates come from the FX tab)
+  vatRate: number; // Current VAT rate as decimal (0.25 = 25%). Earlier rates in VAT_HISTORY
+  launchDate: string; // First day with data (YYYY-MM-DD). YoY shows "NEW" until a full year after
+  active: boolean; // false = paused: no "No spend" warning, no sync checks
+  owner?: string; // Market owner's name
+  slackHandle?: string; // Market owner's Slack handle ("@kari")
+  dataNote?: string; // Caveat about the market's data (shown to MCP clients)
+  group?: string; // Market group for subtotal rows ("Nordics"). Ungrouped shops fall under "Other"
+}
+
+// =============================================================================
+// SHOP REGISTRY
+// =============================================================================
+
+// KV key holding the registry as JSON (same format as config/shops.json)
+export const SHOP_REGISTRY_KEY = 'config:shops';
+
+const REQUIRED_STRINGS = ['code', 'name', 'domain', 'currency', 'flag', 'launchDate'] as const;
+const REQUIRED_NUMBERS = ['exchangeRateToNOK', 'vatRate'] as const;
+
+/**
+ * Validate a registry loaded from JSON
+ * @param value Parsed JSON (array of shops)
+ * @returns Shops in registry order (active defaults to true)
+ * @throws If the value isn't an array of complete shop entries
+ */
+export function parseShopRegistry(value: unknown): Shop[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('Shop registry must be a non-empty JSON array');
+  }
+
+  return value.map((entry, i) => {
+    const shop = entry as Record<string, unknown>;
+    for (const key of REQUIRED_STRINGS) {
+      if (typeof shop[key] !== 'string' || shop[key] === '') {
+        throw new Error(`Shop registry entry ${i}: "${key}" must be a non-empty string`);
+      }
+    }
+    for (const key of REQUIRED_NUMBERS) {
+      if (typeof shop[key] !== 'number') {
+        throw new Error(`Shop registry entry ${i} (${shop.code}): "${key}" must be a number`);
+      }
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(shop.launchDate as string)) {
+      throw new Error(`Shop registry entry ${i} (${shop.code}): launchDate must be YYYY-MM-DD`);
+    }
+    return { ...shop, active: shop.active !== false } as Shop;
+  });
 }
 
-// Exchange rates to NOK (approximate, update as needed)
-// VAT rates: NO/SE/DK 25%, FI 25.5%, DE 19%, NL 21%, UK 20%, COM 25% (Nordic default)
-export const SHOPS: Shop[] = [
-  { code: 'NO', name: 'Norway', domain: 'julegenserbutikken.myshopify.com', currency: 'NOK', flag: '🇳🇴', exchangeRateToNOK: 1.00, vatRate: 0.25 },
-  { code: 'SE', name: 'Sweden', domain: 'jultrojbutiken-se.myshopify.com', currency: 'SEK', flag: '🇸🇪', exchangeRateToNOK: 1.02, vatRate: 0.25 },
-  { code: 'DK', name: 'Denmark', domain: 'julesweaterbutikken.myshopify.com', currency: 'DKK', flag: '🇩🇰', exchangeRateToNOK: 1.60, vatRate: 0.25 },
-  { code: 'FI', name: 'Finland', domain: 'jouluneulekauppa.myshopify.com', currency: 'EUR', flag: '🇫🇮', exchangeRateToNOK: 11.80, vatRate: 0.255 },
-  { code: 'DE', name: 'Germany', domain: 'jollyweihnachtspullover.myshopify.com', currency: 'EUR', flag: '🇩🇪', exchangeRateToNOK: 11.80, vatRate: 0.19 },
-  { code: 'NL', name: 'Netherlands', domain: 'sillysanta-nl.myshopify.com', currency: 'EUR', flag: '🇳🇱', exchangeRateToNOK: 11.80, vatRate: 0.21 },
-  { code: 'UK', name: 'UK', domain: 'sillysanta-uk.myshopify.com', currency: 'GBP', flag: '🇬🇧', exchangeRateToNOK: 14.00, vatRate: 0.20 },
-  { code: 'COM', name: 'Europe', domain: 'sillysanta.myshopify.com', currency: 'USD', flag: '🇪🇺', exchangeRateToNOK: 11.00, vatRate: 0.25 },
-];
-
-export function getShopByCode(code: string): Shop | undefined {
-  return SHOPS.find(s => s.code === code);
+// Bundled registry (config/shops.json) — used when no override is configured
+export const SHOPS: Shop[] = parseShopRegistry(SHOP_CONFIG);
+
+/**
+ * Load the shop registry
+ * Order: KV (config:shops) → SHOP_REGISTRY env var → bundled config/shops.json.
+ * An override that doesn't parse is logged and skipped, so a typo can't stop the reports.
+ * @param env Worker environment
+ */
+export async function loadShopRegistry(env: Env): Promise<Shop[]> {
+  const overrides: Array<[string, () => Promise<string | null | undefined>]> = [
+    [`KV ${SHOP_REGISTRY_KEY}`, async () => env.MARKETING_CACHE?.get(SHOP_REGISTRY_KEY)],
+    ['SHOP_REGISTRY', async () => env.SHOP_REGISTRY],
+  ];
+
+  for (const [name, read] of overrides) {
+    try {
+      const raw = await read();
+      if (raw) return parseShopRegistry(JSON.parse(raw));
+    } catch (error) {
+      console.error(`Ignoring shop registry from ${name}:`, error);
+    }
+  }
+
+  return SHOPS;
+}
+
+/**
+ * Find a shop in a registry
+ * @param code Shop code ("NO")
+ * @param shops Shop registry (see loadShopRegistry)
+ */
+export function getShopByCode(code: string, shops: Shop[]): Shop | undefined {
+  return shops.find(s => s.code === code);
+}
+
+/**
+ * Whether a shop had no data for (part of) the comparison period
+ * @param shop Shop configuration
+ * @param yoyStartDate First day of the YoY period (YYYY-MM-DD)
+ */
+export function isNewShop(shop: Shop, yoyStartDate: string): boolean {
+  return shop.launchDate > yoyStartDate;
+}
+
+// =============================================================================
+// VAT HISTORY
+// =============================================================================
+
+// Rate changes per shop (from date, inclusive). Shops not listed use vatRate throughout.
+// FI: 24% → 25.5% on 2024-09-01. DE: temporary 16% in H2 2020.
+export const VAT_HISTORY: Record<string, Array<{ from: string; rate: number }>> = {
+  FI: [
+    { from: '2013-01-01', rate: 0.24 },
+    { from: '2024-09-01', rate: 0.255 },
+  ],
+  DE: [
+    { from: '2007-01-01', rate: 0.19 },
+    { from: '2020-07-01', rate: 0.16 },
+    { from: '2021-01-01', rate: 0.19 },
+  ],
+};
+
+/**
+ * VAT rate in force for a shop on a given day
+ * @param shop Shop configuration
+ * @param date Day (YYYY-MM-DD)
+ */
+export function getVatRate(shop: Shop, date: string): number {
+  const history = VAT_HISTORY[shop.code];
+  if (!history) return shop.vatRate;
+
+  let rate = shop.vatRate;
+  for (const entry of history) {
+    if (entry.from <= date) rate = entry.rate;
+  }
+  return rate;
 }
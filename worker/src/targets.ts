@@ -0,0 +1,223 @@
+import { Shop, SHOPS, getVatRate } from './shops';
+import { shiftDate } from './triplewhale';
+import { getConversionRate } from './fx';
+import { getMonthBounds } from './forecast';
+import { ConversionOptions, DateRange, MarketTarget, PeriodTarget, TargetComparison, TargetStatus } from './types';
+import TARGET_CONFIG from '../config/targets.json';
+
+// =============================================================================
+// TARGETS TABLE
+// =============================================================================
+
+// Sheet tab / fixture file with one row per market and month:
+// "month,shop,spend_budget,mer_target,amer_target,cac_target" (month as YYYY-MM, amounts in local
+// currency, MER/aMER on VAT-inclusive revenue as in the shop tabs). Empty cells = no target.
+export const TARGETS_TAB = 'Targets';
+
+function parseTargetValue(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/\s/g, ''));
+  return number > 0 ? number : null;
+}
+
+/**
+ * Parse target records (objects keyed by the Targets tab's column names)
+ * Rows without a valid month or shop, or without any target, are skipped.
+ * @param records One object per market and month
+ */
+export function parseTargetRecords(records: Array<Record<string, unknown>>): MarketTarget[] {
+  const targets: MarketTarget[] = [];
+
+  for (const record of records) {
+    const month = String(record.month ?? '').trim().slice(0, 7);
+    const shopCode = String(record.shop ?? '').trim().toUpperCase();
+    if (!/^\d{4}-\d{2}$/.test(month) || !shopCode) continue;
+
+    const target: MarketTarget = {
+      month,
+      shopCode,
+      spendBudget: parseTargetValue(record.spend_budget),
+      mer: parseTargetValue(record.mer_target),
+      amer: parseTargetValue(record.amer_target),
+      cac: parseTargetValue(record.cac_target),
+    };
+    if (target.spendBudget === null && target.mer === null && target.amer === null && target.cac === null) continue;
+    targets.push(target);
+  }
+
+  return targets;
+}
+
+/**
+ * Parse the Targets tab (header row + one row per market and month)
+ * @param rows Header row + value rows
+ */
+export function parseTargetRows(rows: string[][]): MarketTarget[] {
+  if (rows.length < 2) return [];
+  const headers = rows[0].map(h => h?.trim().toLowerCase() ?? '');
+  return parseTargetRecords(rows.slice(1).map(row => Object.fromEntries(headers.map((h, col) => [h, row[col]]))));
+}
+
+// Bundled targets (config/targets.json, same keys as the tab's columns) — used when the source has none
+const CONFIG_TARGETS: MarketTarget[] = parseTargetRecords(TARGET_CONFIG as Array<Record<string, unknown>>);
+
+// Targets from the source, or the bundled config when the source has no Targets tab / rows
+export function withConfigTargets(targets: MarketTarget[]): MarketTarget[] {
+  return targets.length > 0 ? targets : CONFIG_TARGETS;
+}
+
+// =============================================================================
+// PERIOD TARGETS
+// =============================================================================
+
+// Budget used this far off the share of the period elapsed (either way) is worth a look...
+const BUDGET_PACE_WATCH = 0.1;
+// ...and this far off is off track
+const BUDGET_PACE_OFF = 0.25;
+
+// MER/aMER below, or CAC above, target by more than this % is worth a look...
+const TARGET_MISS_WATCH = 3;
+// ...and by more than this % is off track
+const TARGET_MISS_OFF = 10;
+
+export const TARGET_STATUS_MARKERS: Record<TargetStatus, string> = {
+  on_track: '🟢',
+  watch: '🟡',
+  off_track: '🔴',
+};
+
+function getDates(range: DateRange): string[] {
+  const dates: string[] = [];
+  for (let date = range.start; date <= range.end; date = shiftDate(date, 1)) dates.push(date);
+  return dates;
+}
+
+/**
+ * A market's budget and targets for a report period
+ * Monthly budgets are spread evenly over the days of their month, so a week or a month-to-date
+ * gets its share; ratio targets are averaged over the days that have one. Amounts are converted
+ * at the rate on `through`, and MER/aMER targets lose VAT for ex-VAT reports.
+ * @param targets Targets table (see withConfigTargets)
+ * @param shop Shop configuration
+ * @param budgetPeriod Period the budget covers (the month, or the Mon–Sun week for WTD)
+ * @param through Last day with figures (YYYY-MM-DD), for the share elapsed
+ * @param conversion Reporting currency, FX rates and VAT mode
+ * @returns Period target, or undefined if the market has no targets for the period
+ */
+export function getPeriodTarget(
+  targets: MarketTarget[],
+  shop: Shop,
+  budgetPeriod: DateRange,
+  through: string,
+  conversion: ConversionOptions = {}
+): PeriodTarget | undefined {
+  const byMonth = new Map(targets.filter(t => t.shopCode === shop.code).map(t => [t.month, t]));
+  const dates = getDates(budgetPeriod);
+  const days = dates.map(date => byMonth.get(date.slice(0, 7)));
+  if (days.every(t => t === undefined)) return undefined;
+
+  // Budget only when every day of the period has one (a partial budget would read as overspend)
+  const budget = days.every(t => t?.spendBudget != null)
+    ? dates.reduce((sum, date, i) => {
+        const month = getMonthBounds(date);
+        return sum + days[i]!.spendBudget! / Number(month.end.slice(8));
+      }, 0)
+    : null;
+
+  const average = (field: 'mer' | 'amer' | 'cac') => {
+    const values = days.map(t => t?.[field]).filter((v): v is number => v != null);
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+  };
+
+  const rate = getConversionRate(conversion.rates, shop.currency, conversion.currency ?? 'NOK', through, [shop, ...(conversion.shops ?? SHOPS)]);
+  const vatDivisor = conversion.vatMode === 'ex' ? 1 + getVatRate(shop, through) : 1;
+  const mer = average('mer');
+  const amer = average('amer');
+  const cac = average('cac');
+
+  return {
+    budget: budget === null ? null : budget * rate,
+    elapsed: dates.filter(date => date <= through).length / dates.length,
+    mer: mer === null ? null : mer / vatDivisor,
+    amer: amer === null ? null : amer / vatDivisor,
+    cac: cac === null ? null : cac * rate,
+  };
+}
+
+/**
+ * Combine market targets into a group or total target
+ * Budgets add up; ratio targets are weighted by budget (the revenue / NC orders the budgets
+ * imply), so they need a budget for every market.
+ * @param targets Market targets for the same period
+ * @returns Combined target, or undefined unless every market has one
+ */
+export function sumTargets(targets: Array<PeriodTarget | undefined>): PeriodTarget | undefined {
+  if (targets.length === 0 || targets.some(t => t === undefined)) return undefined;
+  const present = targets as PeriodTarget[];
+
+  const budgets = present.map(t => t.budget);
+  const budget = budgets.every((b): b is number => b !== null) ? budgets.reduce((sum, b) => sum + b, 0) : null;
+
+  // Σ budget × ratio / Σ budget (CAC: Σ budget / Σ budget ÷ CAC)
+  const weighted = (field: 'mer' | 'amer' | 'cac') => {
+    if (!budget || present.some(t => t[field] === null)) return null;
+    return field === 'cac'
+      ? budget / present.reduce((sum, t) => sum + t.budget! / t.cac!, 0)
+      : present.reduce((sum, t) => sum + t.budget! * t[field]!, 0) / budget;
+  };
+
+  return {
+    budget,
+    elapsed: present[0].elapsed,
+    mer: weighted('mer'),
+    amer: weighted('amer'),
+    cac: weighted('cac'),
+  };
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Compare a table row with its targets
+ * Budget status compares the share of the budget used with the share of the period elapsed;
+ * the row's status is the worst of that and each target set.
+ * @param row Figures in the reporting currency and VAT mode
+ * @param target Period target for the row
+ */
+export function compareWithTarget(
+  row: { spend: number; mer: number; amer: number; blendedCac: number | null },
+  target: PeriodTarget
+): TargetComparison {
+  const statuses: TargetStatus[] = [];
+  const variance = (actual: number | null, goal: number | null) =>
+    actual !== null && actual > 0 && goal ? (actual / goal - 1) * 100 : null;
+
+  const budgetUsed = target.budget ? (row.spend / target.budget) * 100 : null;
+  if (budgetUsed !== null && target.elapsed > 0) {
+    const pace = Math.abs(budgetUsed / (target.elapsed * 100) - 1);
+    statuses.push(pace > BUDGET_PACE_OFF ? 'off_track' : pace > BUDGET_PACE_WATCH ? 'watch' : 'on_track');
+  }
+
+  // Missing by how much (positive = worse than target)
+  const miss = (shortfall: number | null) => {
+    if (shortfall === null) return;
+    statuses.push(shortfall > TARGET_MISS_OFF ? 'off_track' : shortfall > TARGET_MISS_WATCH ? 'watch' : 'on_track');
+  };
+
+  const merVariance = variance(row.mer, target.mer);
+  const amerVariance = variance(row.amer, target.amer);
+  const cacVariance = variance(row.blendedCac, target.cac);
+  miss(merVariance === null ? null : -merVariance);
+  miss(amerVariance === null ? null : -amerVariance);
+  miss(cacVariance);
+
+  const rank: TargetStatus[] = ['on_track', 'watch', 'off_track'];
+  return {
+    budgetUsed,
+    merVariance,
+    amerVariance,
+    cacVariance,
+    status: statuses.length > 0 ? rank[Math.max(...statuses.map(s => rank.indexOf(s)))] : null,
+  };
+}
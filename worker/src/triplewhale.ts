@@ -1,3 +1,5 @@
+import { DateRange, YoYAlignment } from './types';
+
 // Service account credentials interface
 export interface GoogleCredentials {
   client_email: string;
@@ -69,6 +71,34 @@ export function getSameMonthLastYear(dateStr: string): { start: string; end: str
   };
 }
 
+// Alignments a report can compare last year by (see YoYAlignment)
+export const YOY_ALIGNMENTS: YoYAlignment[] = ['weekday', 'calendar'];
+
+// Weekday alignment: the same days 52 weeks (364 days) earlier, so every day meets the same weekday
+const WEEKDAY_YOY_OFFSET = -364;
+
+// Last year's day for a YoY comparison: 364 days earlier (same weekday) or the same calendar date
+export function getYoYDay(dateStr: string, alignment: YoYAlignment = 'weekday'): string {
+  return alignment === 'weekday' ? shiftDate(dateStr, WEEKDAY_YOY_OFFSET) : getSameDayLastYear(dateStr);
+}
+
+// Last year's week (Mon–Sun) for a YoY comparison: 364 days earlier or the same ISO week
+export function getYoYWeek(dateStr: string, alignment: YoYAlignment = 'weekday'): { start: string; end: string } {
+  if (alignment === 'calendar') return getSameWeekLastYear(dateStr);
+  const date = new Date(dateStr + 'T00:00:00');
+  const monday = shiftDate(dateStr, -((date.getDay() + 6) % 7));
+  const start = shiftDate(monday, WEEKDAY_YOY_OFFSET);
+  return { start, end: shiftDate(start, 6) };
+}
+
+// Last year's month for a YoY comparison: the month's days 364 days earlier or the same calendar month
+export function getYoYMonth(dateStr: string, alignment: YoYAlignment = 'weekday'): { start: string; end: string } {
+  if (alignment === 'calendar') return getSameMonthLastYear(dateStr);
+  const date = new Date(dateStr + 'T00:00:00');
+  const month = getMonthPeriod(date.getMonth() + 1, date.getFullYear());
+  return { start: shiftDate(month.start, WEEKDAY_YOY_OFFSET), end: shiftDate(month.end, WEEKDAY_YOY_OFFSET) };
+}
+
 // Get quarter period (quarter: 1-4)
 export function getQuarterPeriod(quarter: number, year: number): { start: string; end: string } {
   const startMonth = (quarter - 1) * 3; // Q1=0, Q2=3, Q3=6, Q4=9
@@ -134,9 +164,8 @@ export function getPreviousQuarterPeriod(): {
   };
 }
 
-// Get previous month period
-export function getPreviousMonthPeriod(): { start: string; end: string; month: number; year: number } {
-  const now = new Date();
+// Get previous month period (relative to `now`, defaults to today)
+export function getPreviousMonthPeriod(now: Date = new Date()): { start: string; end: string; month: number; year: number } {
   const prevMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
   const lastDay = new Date(now.getFullYear(), now.getMonth(), 0);
 
@@ -159,9 +188,8 @@ export function getMonthPeriod(month: number, year: number): { start: string; en
   };
 }
 
-// Helper to get date strings for periods
-export function getWeekPeriod(weeksAgo: number = 0): { start: string; end: string } {
-  const now = new Date();
+// Helper to get date strings for periods (relative to `now`, defaults to today)
+export function getWeekPeriod(weeksAgo: number = 0, now: Date = new Date()): { start: string; end: string } {
   const dayOfWeek = now.getDay();
   const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
 
@@ -182,26 +210,39 @@ export function getWeekPeriod(weeksAgo: number = 0): { start: string; end: strin
 }
 
 // Get yesterday's date (for daily reports) - returns YYYY-MM-DD string
-export function getYesterdayPeriod(): string {
-  const yesterday = new Date();
+export function getYesterdayPeriod(now: Date = new Date()): string {
+  const yesterday = new Date(now);
   yesterday.setDate(yesterday.getDate() - 1);
   return formatLocalDate(yesterday);
 }
 
-// YTD period (Jan 1 to today)
-export function getYTDPeriod(year: number): { start: string; end: string } {
-  const now = new Date();
-  const start = new Date(year, 0, 1); // Jan 1
-  const end = new Date(year, now.getMonth(), now.getDate()); // Same day/month in target year
+// Season: September through December, named by its year
+const SEASON_START = '09-01';
+const SEASON_END = '12-31';
 
-  return {
-    start: formatLocalDate(start),
-    end: formatLocalDate(end),
-  };
+export function getSeasonPeriod(year: number): DateRange {
+  return { start: `${year}-${SEASON_START}`, end: `${year}-${SEASON_END}` };
 }
 
-// Week-to-date period: Monday through the given date, with YoY via same ISO week last year
-export function getWTDPeriod(yesterday: Date): {
+// Season-to-date period: Sep 1 through the given date (before September: the whole previous season).
+// Previous seasons at the same point are 364 days per season earlier (weekday) or the same dates (calendar)
+export function getSeasonToDatePeriod(endDate: string, seasonsAgo: number = 0, alignment: YoYAlignment = 'weekday'): DateRange {
+  const year = Number(endDate.slice(0, 4));
+  const current = endDate.slice(5) < SEASON_START
+    ? getSeasonPeriod(year - 1)
+    : { start: getSeasonPeriod(year).start, end: endDate };
+  if (seasonsAgo === 0) return current;
+
+  if (alignment === 'weekday') {
+    const offset = WEEKDAY_YOY_OFFSET * seasonsAgo;
+    return { start: shiftDate(current.start, offset), end: shiftDate(current.end, offset) };
+  }
+  const previousYear = Number(current.start.slice(0, 4)) - seasonsAgo;
+  return { start: `${previousYear}${current.start.slice(4)}`, end: `${previousYear}${current.end.slice(4)}` };
+}
+
+// Week-to-date period: Monday through the given date, with YoY 364 days earlier (weekday) or via same ISO week last year (calendar)
+export function getWTDPeriod(yesterday: Date, alignment: YoYAlignment = 'weekday'): {
   start: string; end: string;
   yoyStart: string; yoyEnd: string;
   label: string;
@@ -217,8 +258,8 @@ export function getWTDPeriod(yesterday: Date): {
   const endDay = weekdayNames[daysFromMonday];
   const label = daysFromMonday === 0 ? startDay : `${startDay}–${endDay}`;
 
-  // YoY: same ISO week last year, same weekday range
-  const lastYearWeek = getSameWeekLastYear(formatLocalDate(yesterday));
+  // YoY: same ISO week last year (or 364 days earlier), same weekday range
+  const lastYearWeek = getYoYWeek(formatLocalDate(yesterday), alignment);
   // lastYearWeek is Mon-Sun, we need Mon through same relative day
   const yoyMonday = new Date(lastYearWeek.start + 'T00:00:00');
   const yoyEnd = new Date(yoyMonday);
@@ -233,8 +274,8 @@ export function getWTDPeriod(yesterday: Date): {
   };
 }
 
-// Month-to-date period: 1st of month through the given date, with YoY via same calendar dates
-export function getMTDPeriod(endDate: Date): {
+// Month-to-date period: 1st of month through the given date, with YoY 364 days earlier (weekday) or via same calendar dates
+export function getMTDPeriod(endDate: Date, alignment: YoYAlignment = 'weekday'): {
   start: string; end: string;
   yoyStart: string; yoyEnd: string;
   label: string;
@@ -244,31 +285,39 @@ export function getMTDPeriod(endDate: Date): {
   const monthName = monthNames[endDate.getMonth()];
   const label = `${monthName} ${monthStart.getDate()}–${endDate.getDate()}`;
 
-  // YoY: same calendar dates last year
-  const yoyStart = new Date(monthStart);
-  yoyStart.setFullYear(yoyStart.getFullYear() - 1);
-  const yoyEnd = new Date(endDate);
-  yoyEnd.setFullYear(yoyEnd.getFullYear() - 1);
+  // YoY: same weekdays or same calendar dates last year
+  const start = formatLocalDate(monthStart);
+  const end = formatLocalDate(endDate);
 
   return {
-    start: formatLocalDate(monthStart),
-    end: formatLocalDate(endDate),
-    yoyStart: formatLocalDate(yoyStart),
-    yoyEnd: formatLocalDate(yoyEnd),
+    start,
+    end,
+    yoyStart: getYoYDay(start, alignment),
+    yoyEnd: getYoYDay(end, alignment),
     label,
   };
 }
 
-// Trailing 12 months
-export function getT12MPeriod(endDate: Date): { start: string; end: string } {
-  const end = new Date(endDate);
-  const start = new Date(endDate);
-  start.setFullYear(start.getFullYear() - 1);
-  start.setDate(start.getDate() + 1); // Start day after 1 year ago
-
-  return {
-    start: formatLocalDate(start),
-    end: formatLocalDate(end),
-  };
+// Shift a YYYY-MM-DD date by a number of days (negative = earlier)
+export function shiftDate(dateStr: string, days: number): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  date.setDate(date.getDate() + days);
+  return formatLocalDate(date);
 }
 
+// Sort and merge overlapping/adjacent date ranges (fewer, larger sheet reads)
+export function mergeDateRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start.localeCompare(b.start));
+  const merged: DateRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= shiftDate(last.end, 1)) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
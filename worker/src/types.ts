@@ -9,6 +9,68 @@ export interface Env {
   SLACK_WEBHOOK_URL_MARKETING_TEST: string;
   GOOGLE_SERVICE_ACCOUNT: string;
   TIMEZONE: string;
+  DATA_SOURCE?: string;   // 'sheets' (default) | 'fixtures'
+  MARKETING_CACHE?: KVNamespace;  // Sheet data, Google access token and report retry state
+  CACHE_TTL_SECONDS?: string;     // How long cached sheet data is considered fresh
+  YOY_FX_MODE?: string;           // 'actual' (default) | 'constant' — currency conversion for YoY
+  YOY_ALIGNMENT?: string;         // 'weekday' (default, 364 days earlier) | 'calendar' — which days YoY compares with
+  EVENT_ALIGNMENT?: string;       // 'peak' (default: daily/weekly YoY by days from peak events in Nov–Dec) | 'off'
+  VAT_MODE?: string;              // 'incl' (default, gross revenue) | 'ex' (net revenue)
+  REPORT_CURRENCY?: string;       // Reporting currency (default NOK)
+  SHOW_WEIGHTED_TOTALS?: string;  // '1' = show the old revenue-weighted totals for comparison
+  SLACK_DESTINATIONS?: string;    // JSON list of webhooks with per-destination report options
+  SHOP_REGISTRY?: string;         // JSON shop list overriding config/shops.json (KV config:shops wins)
+  MARKET_GROUPS?: string;         // 'subtotals' (default) | 'collapsed' | 'off' — group rows in report tables
+  HEALTH_ALERT_WEBHOOK?: string;  // Name of the secret holding the tracking-health webhook (default SLACK_WEBHOOK_URL_MARKETING)
+  DAILY_COMPARISONS?: string;     // Comparison columns, e.g. 'yoy,pop' (see ComparisonColumn)
+  WEEKLY_COMPARISONS?: string;
+  MONTHLY_COMPARISONS?: string;
+}
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+export interface DateRange {
+  start: string;                // YYYY-MM-DD (inclusive)
+  end: string;                  // YYYY-MM-DD (inclusive)
+}
+
+// Which days last year a period is compared with. 'weekday': 364 days earlier, so each day meets
+// the same weekday. 'calendar': the same dates (weeks: the same ISO week; months: the same month).
+export type YoYAlignment = 'weekday' | 'calendar';
+
+// Peak events a period can be lined up by in peak season (see events.ts)
+export type SeasonEvent = 'singles_day' | 'black_friday' | 'cyber_monday' | 'shipping_cutoff';
+
+// A market's period lined up with last year by the days from a peak event
+export interface EventAlignment {
+  shopCode: string;
+  event: SeasonEvent;
+  date: string;                 // This year's event (YYYY-MM-DD)
+  previousDate: string;         // Last year's
+}
+
+// =============================================================================
+// CURRENCY & VAT CONVERSION
+// =============================================================================
+
+// Dated rates per currency (NOK per unit), sorted by date
+export type FxRateTable = Record<string, Array<{ date: string; rateToNOK: number }>>;
+
+// 'actual': each day at its own rate. 'constant': YoY converted at this period's rates.
+export type YoYFxMode = 'actual' | 'constant';
+
+// 'incl': revenue as synced (gross). 'ex': VAT removed at the rate in force on each day.
+export type VatMode = 'incl' | 'ex';
+
+// How raw local-currency rows are turned into report figures
+export interface ConversionOptions {
+  rates?: FxRateTable;          // Missing days/currencies fall back to the static shop rate
+  currency?: string;            // Reporting currency (default NOK)
+  yoyMode?: YoYFxMode;          // Default 'actual'
+  vatMode?: VatMode;            // Default 'incl'
+  shops?: Shop[];               // Registry the static fallback rates come from (bundled registry when absent)
 }
 
 // =============================================================================
@@ -41,7 +103,16 @@ export interface MCPResponse {
 // CHANNEL METRICS
 // =============================================================================
 
-export type Channel = 'Meta' | 'Google' | 'TikTok';
+export type Channel = string;   // Display name ("Meta", "TikTok", "Pinterest", ...)
+
+// Raw per-channel sums, keyed by the sheet column prefix ("meta", "google", ...)
+export interface ChannelTotals {
+  spend: number;
+  pixelRevenue: number;
+  channelRevenue: number;
+  pixelNcRevenue: number;       // new customer revenue (pixel-tracked)
+  pixelNcOrders: number | null; // new customer orders (pixel-tracked); null without a <channel>_pixel_nc_orders column
+}
 
 export interface ChannelMetrics {
   channel: Channel;
@@ -49,7 +120,53 @@ export interface ChannelMetrics {
   pixelROAS: number | null;    // null if spend = 0
   channelROAS: number | null;  // null if spend = 0
   ncROAS: number | null;       // null if spend = 0
-  ncOrders?: number;           // Only included in monthly reports
+  ncOrders?: number;           // Only included in weekly/monthly reports
+  ncOrdersEstimated?: boolean; // ncOrders estimated from NC revenue (no pixel NC orders column)
+  ncCpa?: number | null;       // spend / ncOrders (weekly/monthly), null if no NC orders
+  previousPeriod?: Pick<ChannelMetrics, 'spend' | 'pixelROAS' | 'channelROAS' | 'ncROAS'> | null;  // For PoP columns
+  pixelMaturity?: number;      // Share of the estimated final pixel revenue reported so far (weekly, with a lag model)
+  pixelROASFinal?: number;     // Pixel ROAS once the period's pixel revenue is complete (est.)
+}
+
+// Pixel revenue per shop code, day and channel key as loaded on one day (see pixellag.ts)
+export interface PixelSnapshot {
+  date: string;                 // Day the data was loaded (YYYY-MM-DD)
+  takenAt: string;              // ISO timestamp of the source fetch
+  pixelRevenue: Record<string, Record<string, Record<string, number>>>;  // Local currency, as synced
+}
+
+// Share of a day's final pixel revenue reported at each age (index 1 = loaded the day after), per channel key
+export interface PixelLagModel {
+  factors: Record<string, Array<number | null>>;  // null where an age has too few samples; '*' = all channels pooled
+  snapshots: number;            // Snapshots the model was measured from
+}
+
+// =============================================================================
+// METRIC IDS
+// =============================================================================
+
+// Keys of the metric registry (METRICS in metrics.ts); row objects store values under these ids
+export type MetricId =
+  | 'revenue'
+  | 'spend'
+  | 'orders'
+  | 'aov'
+  | 'mer'
+  | 'cos'
+  | 'amer'
+  | 'ncPercent'
+  | 'ncCpa'
+  | 'blendedCac'
+  | 'returningRevenue'
+  | 'returningShare';
+
+// Summed amounts the registry metrics are derived from (a market, group, total, trend period or channel)
+export interface MetricInputs {
+  revenue: number;
+  spend: number;
+  orders: number;
+  newCustomerOrders: number;
+  ncRevenue: number;            // Pixel-tracked new customer revenue
 }
 
 // =============================================================================
@@ -58,14 +175,25 @@ export interface ChannelMetrics {
 
 export interface CountryMarketingMetrics {
   shop: Shop;
-  revenue: number;              // NOK, ex-VAT
-  revenueYoY: number | null;    // Previous year revenue (NOK), for YoY calc
-  spend: number;                // NOK
-  roas: number;                 // revenue / spend (overall)
-  ncRoas: number;               // nc_revenue / spend (overall)
+  revenue: number;              // Reporting currency
+  revenueLocal: number;         // Same revenue in the shop's own currency
+  revenueYoY: number | null;    // Previous year revenue (reporting currency), for YoY calc
+  isNew?: boolean;              // Launched after the YoY period started (YoY shows "NEW")
+  spend: number;                // Reporting currency
+  mer: number;                  // revenue / spend (overall)
+  amer: number;                 // nc_revenue / spend (overall)
   ncPercent: number;            // new_customer_orders / orders × 100
   orders: number;
   aov: number;                  // revenue / orders
+  ncRevenue: number;            // Pixel NC revenue summed over channels (reporting currency)
+  newCustomerOrders: number;
+  blendedCac: number | null;    // spend / new customer orders (null without NC orders)
+  returningRevenue: number;     // revenue − NC revenue
+  returningShare: number | null;  // returning revenue / revenue × 100
+  previous: MetricInputs | null;  // Same period last year (null without revenue), for metric YoY
+  previousPeriod?: MetricInputs | null;  // Period before (day, week or month), for PoP columns
+  projection?: Projection;      // Month-end projection (WTD/MTD tables)
+  target?: PeriodTarget;        // Budget + targets for the period (WTD/MTD and monthly tables)
   channels: ChannelMetrics[];   // Only channels with spend > 0
 }
 
@@ -81,74 +209,259 @@ export interface PeriodMarketingMetrics {
   newCustomerOrders: number;
 
   // Calculated metrics
+  ncRevenue: number;            // Pixel NC revenue summed over channels
+
+  // Calculated metrics (see METRICS in metrics.ts)
   mer: number | null;           // revenue / spend
+  cos: number | null;           // spend / revenue × 100
   ncPercent: number | null;     // newCustomerOrders / orders × 100
   aov: number | null;           // revenue / orders
 
-  // Channel totals (for weighted ROAS calculations)
-  metaSpend: number;
-  metaPixelRevenue: number;
-  metaChannelRevenue: number;
-  metaPixelNcRevenue: number;
-
-  googleSpend: number;
-  googlePixelRevenue: number;
-  googleChannelRevenue: number;
-  googlePixelNcRevenue: number;
-
-  tiktokSpend: number;
-  tiktokPixelRevenue: number;
-  tiktokChannelRevenue: number;
-  tiktokPixelNcRevenue: number;
+  // Channel totals (for weighted ROAS calculations), in sheet column order
+  channels: Record<string, ChannelTotals>;
 
   // Meta info
   daysWithData: number;
 }
 
+// =============================================================================
+// DATA QUALITY
+// =============================================================================
+
+export type DataQualityCheck =
+  | 'missing_header'            // Expected column not in the tab (parsed as 0)
+  | 'unknown_header'            // Column the parser doesn't know (often a rename)
+  | 'invalid_date'              // Row skipped because the date didn't parse
+  | 'invalid_number'            // Cell that isn't a plain number (parsed as 0 or truncated)
+  | 'duplicate_date'            // Same date on more than one row
+  | 'date_gap'                  // Missing days between first and last row
+  | 'negative_value'            // Negative revenue, spend or order counts
+  | 'spend_mismatch';           // spend ≠ sum of <channel>_spend columns
+
+export interface DataQualityIssue {
+  shopCode: string;
+  check: DataQualityCheck;
+  severity: 'error' | 'warning';
+  message: string;              // Short, human-readable ("3 duplicate dates")
+  dates?: string[];             // Affected dates (YYYY-MM-DD), when applicable
+}
+
+export interface ShopDataQuality {
+  shopCode: string;
+  days: number;                 // Rows parsed
+  firstDate: string | null;
+  lastDate: string | null;
+  issues: DataQualityIssue[];
+}
+
+export interface DataQualityReport {
+  dataAsOf: Date;
+  startDate: string | null;     // Window the date-based checks were limited to (null = all data)
+  endDate: string | null;
+  shops: ShopDataQuality[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// =============================================================================
+// SYNC STATUS
+// =============================================================================
+
+export interface ShopSyncStatus {
+  shopCode: string;
+  lastDate: string | null;      // Latest date in the shop's tab (YYYY-MM-DD)
+}
+
+// =============================================================================
+// ANOMALIES
+// =============================================================================
+
+// Figures the anomaly detector checks (channelROAS = channel-reported revenue / channel spend)
+export type AnomalyMetric = 'spend' | 'mer' | 'ncPercent' | 'orders' | 'channelROAS';
+
+export interface Anomaly {
+  shop: Shop;
+  channel?: Channel;            // Channel figure (market-level when omitted)
+  metric: AnomalyMetric;
+  value: number;                // The day's value (local currency for spend)
+  baseline: number;             // Mean of the same weekday over the previous weeks
+  change: number;               // % vs baseline
+  zScore: number;               // Standard deviations from the baseline mean
+}
+
+// =============================================================================
+// TRACKING HEALTH
+// =============================================================================
+
+export type TrackingCheck =
+  | 'spend_stopped'             // Channel spend went to 0 after a week of activity
+  | 'pixel_collapse'            // Pixel ROAS collapsed while the market kept taking orders
+  | 'revenue_divergence';       // Channel-reported ÷ pixel revenue far off its usual ratio
+
+export interface TrackingAlert {
+  shop: Shop;
+  channel: Channel;
+  check: TrackingCheck;
+  date: string;                 // First day of the problem (YYYY-MM-DD)
+  value: number;                // spend_stopped: 0 · pixel_collapse: pixel ROAS · revenue_divergence: channel ÷ pixel revenue
+  baseline: number;             // Same figure over the week before (average daily spend for spend_stopped)
+  orders?: number;              // pixel_collapse: the market's orders that day
+  typicalOrders?: number;       // pixel_collapse: average daily orders the week before
+}
+
 // =============================================================================
 // REPORT DATA STRUCTURES
 // =============================================================================
 
+// 'subtotals': countries plus a subtotal row per market group. 'collapsed': group rows only.
+export type MarketGroupMode = 'off' | 'subtotals' | 'collapsed';
+
+// A column comparing a figure with last year ('yoy') or with the period before ('pop': the previous
+// day, week or month). Revenue, spend and MER compare as % change, NC% in percentage points.
+export type ComparisonBasis = 'yoy' | 'pop';
+export type ComparisonMetric = 'revenue' | 'spend' | 'mer' | 'ncPercent';
+
+export interface ComparisonColumn {
+  basis: ComparisonBasis;
+  metric: ComparisonMetric;
+}
+
+// Reports whose comparison columns are configurable
+export type ComparisonReport = 'daily' | 'weekly' | 'monthly';
+
+// How a report is computed (env defaults, overridable per request)
+export interface ReportOptions {
+  currency: string;             // Reporting currency ("NOK", "EUR", ...)
+  showLocalCurrency: boolean;   // Extra column with revenue in each market's own currency
+  yoyFxMode: YoYFxMode;
+  yoyAlignment: YoYAlignment;
+  eventAlignment: boolean;      // Line daily/weekly YoY up by peak events in peak season
+  vatMode: VatMode;
+  marketGroups: MarketGroupMode;
+  showWeightedTotals: boolean;  // Debug: old weighted totals under the pooled ones
+  comparisons: Record<ComparisonReport, ComparisonColumn[]>;  // Comparison columns per report type
+}
+
+export interface ReportTotals {
+  revenue: number;
+  spend: number;
+  mer: number;
+  amer: number;
+  ncPercent: number;
+  orders: number;
+  aov: number;
+  newCustomerOrders: number;
+  ncRevenue: number;
+  blendedCac: number | null;
+  returningRevenue: number;
+  returningShare: number | null;
+  vsLY: number | null;          // Previous year revenue
+  previous: MetricInputs | null;  // Previous year sums (markets with YoY data only)
+  previousPeriod?: MetricInputs | null;  // Period-before sums (markets with PoP data only)
+  projection?: Projection;      // Summed market projections (WTD/MTD tables)
+  target?: PeriodTarget;        // Combined market targets (only when every market has one)
+  weighted?: WeightedRatios;    // Previous revenue-weighted ratios (debug view)
+}
+
+// Month-end projection for revenue and spend, with the half-width of its 80% range
+export interface Projection {
+  revenue: number;
+  revenueMargin: number;
+  spend: number;
+  spendMargin: number;
+}
+
+// One row of the Targets tab / config: a market's plan for a month (amounts in local currency)
+export interface MarketTarget {
+  month: string;                // YYYY-MM
+  shopCode: string;
+  spendBudget: number | null;
+  mer: number | null;           // MER target (revenue incl. VAT / spend)
+  amer: number | null;          // aMER target (NC revenue incl. VAT / spend)
+  cac: number | null;           // Blended CAC target
+}
+
+// A market's targets for a report period, in the reporting currency and VAT mode
+export interface PeriodTarget {
+  budget: number | null;        // Spend budget for the whole budget period (month, or week on WTD)
+  elapsed: number;              // Share of the budget period the figures cover (0–1)
+  mer: number | null;
+  amer: number | null;
+  cac: number | null;
+}
+
+export type TargetStatus = 'on_track' | 'watch' | 'off_track';
+
+// Figures vs targets for one table row
+export interface TargetComparison {
+  budgetUsed: number | null;    // Spend ÷ budget × 100
+  merVariance: number | null;   // % above (+) or below (−) target
+  amerVariance: number | null;
+  cacVariance: number | null;   // % above target (+ = more expensive)
+  status: TargetStatus | null;  // Worst of budget pace and the targets set (null without targets)
+}
+
+// Ratios as revenue-weighted averages of the country ratios (the old TOTAL calculation)
+export type WeightedRatios = Partial<Record<MetricId, number>>;
+
+// Countries of one market group ("Nordics", "DACH", ...) with their subtotal
+export interface MarketGroupMetrics {
+  name: string;
+  countries: CountryMarketingMetrics[];  // Sorted by revenue DESC
+  totals: ReportTotals;
+  isNew: boolean;               // Every market in the group launched after the YoY period started
+}
+
 export interface TrendData {
   period: string;               // e.g., "Week 4" or "January"
   revenue: number;
   spend: number;
-  roas: number;
-  ncRoas: number;
+  mer: number;
+  amer: number;
   ncPercent: number;
+  blendedCac: number | null;
+  returningShare: number | null;
   vsLY: number | null;
+  weighted?: WeightedRatios;
+  groups?: TrendData[];         // Same figures per market group (period = group name)
 }
 
 export interface PacingData {
   label: string;                // e.g., "Mon–Wed" or "Feb 1–9"
   countries: CountryMarketingMetrics[];
-  totals: {
-    revenue: number;
-    spend: number;
-    roas: number;
-    ncRoas: number;
-    ncPercent: number;
-    orders: number;
-    aov: number;
-    vsLY: number | null;
-  };
+  groups: MarketGroupMetrics[];
+  totals: ReportTotals;
+  projectedTo?: string;         // Month end the rows are projected to (YYYY-MM-DD), if any
+}
+
+// A day old enough for its pixel revenue to have mostly settled, with channel ROAS per market
+export interface SettledPixelData {
+  date: string;                 // YYYY-MM-DD
+  countries: CountryMarketingMetrics[];
 }
 
 export interface DailyReportData {
   date: Date;
   countries: CountryMarketingMetrics[];
-  totals: {
-    revenue: number;
-    spend: number;
-    roas: number;
-    ncRoas: number;
-    ncPercent: number;
-    orders: number;
-    aov: number;
-    vsLY: number | null;
-  };
+  totals: ReportTotals;
+  groups: MarketGroupMetrics[]; // Same countries by market group
   noSpendCountries: string[];   // Country codes with zero spend
+  notSynced: ShopSyncStatus[];  // Markets left out because the sheet isn't synced through the period yet
+  anomalies: Anomaly[];         // Unusual figures vs the same weekday in previous weeks
   wtd?: PacingData;             // Week-to-date (Wed-Fri only)
+  settledPixel?: SettledPixelData;  // Pixel ROAS for the day three days back (markets with channel spend)
+  currency: string;             // Reporting currency
+  showLocalCurrency: boolean;
+  yoyFxMode: YoYFxMode;
+  yoyAlignment: YoYAlignment;
+  yoyEvents: EventAlignment[];  // Markets whose YoY is lined up by a peak event (peak season)
+  missingShippingCutoffs: string[];  // Markets shown without a last shipping day this year or last (peak season)
+  vatMode: VatMode;
+  marketGroups: MarketGroupMode;
+  showWeightedTotals: boolean;
+  dataAsOf: Date;               // When the underlying sheet data was fetched
+  dataQualityIssues: DataQualityIssue[];  // Issues affecting the reported period
+  comparisons: ComparisonColumn[];  // Comparison columns of the main and channel tables
 }
 
 export interface WeeklyReportData {
@@ -157,36 +470,75 @@ export interface WeeklyReportData {
   startDate: Date;
   endDate: Date;
   countries: CountryMarketingMetrics[];
-  totals: {
-    revenue: number;
-    spend: number;
-    roas: number;
-    ncRoas: number;
-    ncPercent: number;
-    orders: number;
-    aov: number;
-    vsLY: number | null;
-  };
+  totals: ReportTotals;
   trend: TrendData[];           // Last 3 weeks
+  groups: MarketGroupMetrics[];
   noSpendCountries: string[];
+  notSynced: ShopSyncStatus[];
   pixelDataIncomplete: boolean; // True if endDate is within 3 days
+  pixelLagSnapshots?: number;   // Snapshots behind the channel tables' est. final pixel ROAS (none without a lag model)
   mtd?: PacingData;             // Month-to-date (2nd+ week of month)
+  currency: string;             // Reporting currency
+  showLocalCurrency: boolean;
+  yoyFxMode: YoYFxMode;
+  yoyAlignment: YoYAlignment;
+  yoyEvents: EventAlignment[];  // Markets whose YoY is lined up by a peak event (peak season)
+  missingShippingCutoffs: string[];  // Markets shown without a last shipping day this year or last (peak season)
+  vatMode: VatMode;
+  marketGroups: MarketGroupMode;
+  showWeightedTotals: boolean;
+  dataAsOf: Date;
+  dataQualityIssues: DataQualityIssue[];
+  comparisons: ComparisonColumn[];  // Comparison columns of the main and channel tables
 }
 
 export interface MonthlyReportData {
   month: number;                // 1-12
   year: number;
   countries: CountryMarketingMetrics[];
-  totals: {
-    revenue: number;
-    spend: number;
-    roas: number;
-    ncRoas: number;
-    ncPercent: number;
-    orders: number;
-    aov: number;
-    vsLY: number | null;
-  };
+  totals: ReportTotals;
   trend: TrendData[];           // Last 3 months
+  groups: MarketGroupMetrics[];
   noSpendCountries: string[];
+  notSynced: ShopSyncStatus[];
+  currency: string;             // Reporting currency
+  showLocalCurrency: boolean;
+  yoyFxMode: YoYFxMode;
+  yoyAlignment: YoYAlignment;
+  vatMode: VatMode;
+  marketGroups: MarketGroupMode;
+  showWeightedTotals: boolean;
+  dataAsOf: Date;
+  comparisons: ComparisonColumn[];  // Comparison columns of the main and channel tables
+}
+
+// This season so far against one previous season at the same point
+export interface SeasonComparison {
+  period: DateRange;            // The previous season to the same point
+  countries: CountryMarketingMetrics[];  // This season so far; `previous` / `revenueYoY` = that season
+  groups: MarketGroupMetrics[];
+  totals: ReportTotals;
+}
+
+// Cumulative TOTAL through a day of the season, and through the same point of the previous seasons
+export interface SeasonPacePoint {
+  date: string;                 // YYYY-MM-DD (each Sunday, then the report's last day)
+  current: MetricInputs;
+  previous: Array<MetricInputs | null>;  // Per previous season, most recent first (null without data)
+}
+
+export interface SeasonReportData {
+  season: number;               // Year of the season (Sep–Dec)
+  startDate: Date;
+  endDate: Date;
+  comparisons: SeasonComparison[];  // vs last season, then vs two seasons ago
+  pace: SeasonPacePoint[];
+  seasonEnd: { revenue: number; lastSeason: number } | null;  // Season total at last season's pace from here (null once over)
+  notSynced: ShopSyncStatus[];
+  currency: string;             // Reporting currency
+  yoyFxMode: YoYFxMode;
+  yoyAlignment: YoYAlignment;
+  vatMode: VatMode;
+  marketGroups: MarketGroupMode;
+  dataAsOf: Date;
 }
@@ -0,0 +1,191 @@
+import { MarketingDailyMetrics, getMetricsForPeriod } from './sheets';
+import { MarketingDataSet } from './datasource';
+import { DataQualityIssue, DataQualityReport, ShopDataQuality } from './types';
+
+// Spend vs channel sum: differences below this are rounding, not a broken sync
+const SPEND_MISMATCH_TOLERANCE_ABS = 1;       // 1 unit of local currency
+const SPEND_MISMATCH_TOLERANCE_PCT = 0.01;    // 1% of spend
+
+const NUMERIC_FIELDS = ['orderRevenue', 'spend', 'orders', 'newCustomerOrders'] as const;
+
+function hasNegativeValue(row: MarketingDailyMetrics): boolean {
+  return NUMERIC_FIELDS.some(field => row[field] < 0) ||
+    Object.values(row.channels).some(ch => Object.values(ch).some(v => v !== null && v < 0));
+}
+
+// Format date as YYYY-MM-DD using local timezone (not UTC)
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// =============================================================================
+// SERIES CHECKS (on parsed rows)
+// =============================================================================
+
+/**
+ * Validate a shop's daily series: duplicate dates, gaps, negative values and
+ * spend that doesn't match the sum of the channel spend columns
+ * @param shopCode Shop code (for issue labels)
+ * @param rows Parsed daily metrics (any order)
+ * @returns Issues found (empty if the series looks healthy)
+ */
+export function validateShopMetrics(shopCode: string, rows: MarketingDailyMetrics[]): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  if (rows.length === 0) return issues;
+
+  // Duplicate dates
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.date)) duplicates.add(row.date);
+    seen.add(row.date);
+  }
+  if (duplicates.size > 0) {
+    const dates = [...duplicates].sort();
+    issues.push({
+      shopCode,
+      check: 'duplicate_date',
+      severity: 'error',
+      message: `${plural(dates.length, 'duplicate date')} (double-counted)`,
+      dates,
+    });
+  }
+
+  // Gaps between first and last date
+  const sortedDates = [...seen].sort();
+  const missing: string[] = [];
+  const cursor = new Date(sortedDates[0] + 'T00:00:00');
+  const last = sortedDates[sortedDates.length - 1];
+  while (formatLocalDate(cursor) < last) {
+    const date = formatLocalDate(cursor);
+    if (!seen.has(date)) missing.push(date);
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  if (missing.length > 0) {
+    issues.push({
+      shopCode,
+      check: 'date_gap',
+      severity: 'warning',
+      message: `${plural(missing.length, 'missing day')} (${missing[0]}${missing.length > 1 ? ` … ${missing[missing.length - 1]}` : ''})`,
+      dates: missing,
+    });
+  }
+
+  // Negative values
+  const negativeDates = rows
+    .filter(hasNegativeValue)
+    .map(row => row.date);
+  if (negativeDates.length > 0) {
+    const dates = [...new Set(negativeDates)].sort();
+    issues.push({
+      shopCode,
+      check: 'negative_value',
+      severity: 'warning',
+      message: `negative values on ${plural(dates.length, 'day')}`,
+      dates,
+    });
+  }
+
+  // Spend = sum of channel spend
+  const mismatchDates = rows
+    .filter(row => {
+      const channelSum = Object.values(row.channels).reduce((sum, ch) => sum + ch.spend, 0);
+      const diff = Math.abs(row.spend - channelSum);
+      return diff > SPEND_MISMATCH_TOLERANCE_ABS && diff > row.spend * SPEND_MISMATCH_TOLERANCE_PCT;
+    })
+    .map(row => row.date);
+  if (mismatchDates.length > 0) {
+    const dates = [...new Set(mismatchDates)].sort();
+    const channelNames = [...new Set(rows.flatMap(row => Object.keys(row.channels)))];
+    issues.push({
+      shopCode,
+      check: 'spend_mismatch',
+      severity: 'warning',
+      message: `spend ≠ ${channelNames.join(' + ') || 'channel'} spend on ${plural(dates.length, 'day')}`,
+      dates,
+    });
+  }
+
+  return issues;
+}
+
+// =============================================================================
+// DATA QUALITY REPORT
+// =============================================================================
+
+/**
+ * Keep parse issues relevant to a date window. Issues without dates (schema problems)
+ * always apply; dated issues are narrowed to the dates inside the window.
+ */
+function scopeIssues(issues: DataQualityIssue[], startDate: string, endDate: string): DataQualityIssue[] {
+  const scoped: DataQualityIssue[] = [];
+  for (const issue of issues) {
+    if (!issue.dates) {
+      scoped.push(issue);
+      continue;
+    }
+    const dates = issue.dates.filter(d => d >= startDate && d <= endDate);
+    if (dates.length === 0) continue;
+    scoped.push({ ...issue, dates });
+  }
+  return scoped;
+}
+
+/**
+ * Build a data-quality report for every loaded shop
+ * @param dataSet Loaded shop data (includes schema issues found while parsing)
+ * @param startDate Optional window start (YYYY-MM-DD) for date-based checks
+ * @param endDate Optional window end (YYYY-MM-DD) for date-based checks
+ * @returns Structured report with per-shop issues and counts
+ */
+export function buildDataQualityReport(
+  dataSet: MarketingDataSet,
+  startDate?: string,
+  endDate?: string
+): DataQualityReport {
+  const shops: ShopDataQuality[] = [];
+
+  for (const [shopCode, rows] of dataSet.data) {
+    const parseIssues = dataSet.issues.get(shopCode) ?? [];
+    const scoped = startDate && endDate;
+    const issues = [
+      ...(scoped ? scopeIssues(parseIssues, startDate, endDate) : parseIssues),
+      ...validateShopMetrics(shopCode, scoped ? getMetricsForPeriod(rows, startDate, endDate) : rows),
+    ];
+
+    const dates = rows.map(r => r.date).sort();
+    shops.push({
+      shopCode,
+      days: rows.length,
+      firstDate: dates[0] ?? null,
+      lastDate: dates[dates.length - 1] ?? null,
+      issues,
+    });
+  }
+
+  const allIssues = shops.flatMap(s => s.issues);
+  return {
+    dataAsOf: dataSet.asOf,
+    startDate: startDate ?? null,
+    endDate: endDate ?? null,
+    shops,
+    errorCount: allIssues.filter(i => i.severity === 'error').length,
+    warningCount: allIssues.filter(i => i.severity === 'warning').length,
+  };
+}
+
+/**
+ * Flatten a report to the list of issues (errors first)
+ */
+export function getDataQualityIssues(report: DataQualityReport): DataQualityIssue[] {
+  return report.shops
+    .flatMap(s => s.issues)
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}